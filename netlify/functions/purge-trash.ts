@@ -0,0 +1,26 @@
+/**
+ * Scheduled Netlify function that permanently deletes documents
+ * left in the recycle bin past the retention period, once a day
+ */
+export default async function handler(): Promise<Response> {
+  const baseUrl = process.env.URL || process.env.NEXTAUTH_URL;
+  if (!baseUrl) {
+    return new Response('URL is not defined', { status: 500 });
+  }
+  if (!process.env.INDEXING_WORKER_SECRET) {
+    return new Response('INDEXING_WORKER_SECRET is not defined', { status: 500 });
+  }
+
+  const response = await fetch(`${baseUrl}/api/maintenance/purge-trash`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.INDEXING_WORKER_SECRET}` },
+  });
+
+  const body = await response.text();
+  console.log(`Purge trash responded ${response.status}: ${body}`);
+  return new Response(body, { status: response.status });
+}
+
+export const config = {
+  schedule: '0 3 * * *',
+};
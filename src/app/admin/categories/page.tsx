@@ -0,0 +1,36 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AppHeader } from '@/components/layout/app-header';
+import { CategoryManager } from '@/components/admin/category-manager';
+
+export default function AdminCategoriesPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader
+        action={(
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/documents">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Documents
+            </Link>
+          </Button>
+        )}
+      />
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-2">Categories</h2>
+          <p className="text-sm text-muted-foreground">
+            Organize the category taxonomy. Renaming or merging updates every document in the category.
+          </p>
+        </div>
+
+        <CategoryManager />
+      </main>
+    </div>
+  );
+}
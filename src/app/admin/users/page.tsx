@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AppHeader } from '@/components/layout/app-header';
+import { CreateUserDialog } from '@/components/admin/create-user-dialog';
+import { UserList } from '@/components/admin/user-list';
+
+export default function AdminUsersPage() {
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader
+        action={(
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/documents">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Documents
+              </Link>
+            </Button>
+            <CreateUserDialog onCreated={() => setRefreshTrigger((prev) => prev + 1)} />
+          </div>
+        )}
+      />
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-2">Users</h2>
+          <p className="text-sm text-muted-foreground">
+            Manage accounts, roles and access
+          </p>
+        </div>
+
+        <UserList refreshTrigger={refreshTrigger} />
+      </main>
+    </div>
+  );
+}
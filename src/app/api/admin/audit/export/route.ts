@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { auditEventsToCsv, parseAuditFilter } from '@/lib/audit/audit-log';
+import { listAuditEvents, type AuditEvent } from '@/lib/db/audit-events';
+
+// Keep a single export within memory and response-time limits
+const MAX_EXPORT_EVENTS = 50000;
+
+// GET /api/admin/audit/export - Download audit events as CSV
+// Query: action?, actor?, documentId? (same filters as /api/admin/audit)
+export async function GET(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const filter = parseAuditFilter(request.nextUrl.searchParams);
+    if (typeof filter === 'string') {
+      return NextResponse.json({ error: filter }, { status: 400 });
+    }
+
+    const events: AuditEvent[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await listAuditEvents(filter, { pageSize: 1000, continuationToken });
+      events.push(...page.entities);
+      continuationToken = page.continuationToken;
+    } while (continuationToken && events.length < MAX_EXPORT_EVENTS);
+
+    const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+    return new NextResponse(auditEventsToCsv(events.slice(0, MAX_EXPORT_EVENTS)), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting audit events:', error);
+    return NextResponse.json({ error: 'Failed to export audit events' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { parseAuditFilter } from '@/lib/audit/audit-log';
+import { listAuditEvents } from '@/lib/db/audit-events';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// GET /api/admin/audit - Browse audit events, newest first
+// Query: action?, actor?, documentId?, pageSize?, continuationToken?
+export async function GET(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const filter = parseAuditFilter(searchParams);
+    if (typeof filter === 'string') {
+      return NextResponse.json({ error: filter }, { status: 400 });
+    }
+
+    const pageSize = Math.min(
+      parseInt(searchParams.get('pageSize') || '', 10) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    );
+    const page = await listAuditEvents(filter, {
+      pageSize,
+      continuationToken: searchParams.get('continuationToken') || undefined,
+    });
+
+    return NextResponse.json({
+      events: page.entities,
+      continuationToken: page.continuationToken,
+    });
+  } catch (error) {
+    console.error('Error listing audit events:', error);
+    return NextResponse.json({ error: 'Failed to list audit events' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { exportLibrary } from '@/lib/documents/library-backup';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// GET /api/admin/library/export - Download the whole library (blobs, document rows, store config) as a ZIP
+export async function GET(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { archive, manifest } = await exportLibrary();
+
+    await recordAudit(request, guard.session, {
+      action: 'library.export',
+      details: {
+        documents: manifest.documents.length,
+        blobs: manifest.blobs.length,
+        sizeBytes: archive.length,
+      },
+    });
+
+    const fileName = `pgcplus-library-${manifest.exportedAt.slice(0, 10)}.zip`;
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting library:', error);
+    return NextResponse.json({ error: 'Failed to export library' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { restoreLibrary } from '@/lib/documents/library-backup';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// POST /api/admin/library/restore - Recreate documents from a library export
+// Form fields: file (the export ZIP), restoreStoreConfig? ('true' to reuse the archived File Search store)
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const restoreStoreConfig = formData.get('restoreStoreConfig') === 'true';
+
+    if (!file) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+
+    const report = await restoreLibrary(Buffer.from(await file.arrayBuffer()), { restoreStoreConfig });
+    if (typeof report === 'string') {
+      return NextResponse.json({ error: report }, { status: 400 });
+    }
+
+    await recordAudit(request, guard.session, {
+      action: 'library.restore',
+      details: {
+        archiveName: file.name,
+        restored: report.documents.restored,
+        skipped: report.documents.skipped.length,
+        missingBlobs: report.blobs.missing.length,
+        storeConfigRestored: report.storeConfigRestored,
+        queuedForIndexing: report.queuedForIndexing,
+      },
+    });
+    if (report.queuedForIndexing > 0) {
+      after(() => processIndexingJobs());
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error restoring library:', error);
+    return NextResponse.json({ error: 'Failed to restore library' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { reconcile, type ReconcileMode } from '@/lib/documents/reconciliation';
+
+function isValidMinutes(value: unknown): value is number | undefined {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+// GET /api/admin/reconcile - Dry-run report of table/blob/index inconsistencies
+export async function GET() {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const report = await reconcile({ mode: 'dry-run' });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    return NextResponse.json({ error: 'Reconciliation failed' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/reconcile - Run reconciliation
+// Body: { mode?: 'dry-run' | 'fix', stuckAfterMinutes?: number, graceMinutes?: number }
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { mode = 'dry-run', stuckAfterMinutes, graceMinutes } = body as {
+      mode?: ReconcileMode;
+      stuckAfterMinutes?: unknown;
+      graceMinutes?: unknown;
+    };
+
+    if (!['dry-run', 'fix'].includes(mode)) {
+      return NextResponse.json({ error: 'Invalid mode' }, { status: 400 });
+    }
+    // A negative or non-numeric grace period would treat files still uploading as orphans
+    if (!isValidMinutes(stuckAfterMinutes)) {
+      return NextResponse.json({ error: 'stuckAfterMinutes must be a number of minutes, 0 or more' }, { status: 400 });
+    }
+    if (!isValidMinutes(graceMinutes)) {
+      return NextResponse.json({ error: 'graceMinutes must be a number of minutes, 0 or more' }, { status: 400 });
+    }
+
+    const report = await reconcile({ mode, stuckAfterMinutes, graceMinutes });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    return NextResponse.json({ error: 'Reconciliation failed' }, { status: 500 });
+  }
+}
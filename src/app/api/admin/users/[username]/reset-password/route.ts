@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { resetPassword, validatePassword } from '@/lib/auth/accounts';
+import { getUser } from '@/lib/db/users';
+
+// POST /api/admin/users/[username]/reset-password - Set a new password
+// Body: { password }
+export async function POST(request: NextRequest, { params }: { params: Promise<{ username: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { username } = await params;
+    const { password } = await request.json();
+
+    const validationError = validatePassword(password);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!(await getUser(username))) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    await resetPassword(username, password);
+    return NextResponse.json({ message: 'Password reset' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { isRole } from '@/lib/auth/roles';
+import { getUser, updateUser, toPublicUser, type UserAccount } from '@/lib/db/users';
+
+// PATCH /api/admin/users/[username] - Change role, enable/disable or edit profile
+// Body: { role?, disabled?, displayName?, email? }
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ username: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { username } = await params;
+    const body = await request.json();
+    const { role, disabled, displayName, email } = body;
+
+    const existing = await getUser(username);
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      return NextResponse.json({ error: 'disabled must be a boolean' }, { status: 400 });
+    }
+
+    // Stop admins locking themselves out
+    const isSelf = guard.session?.user?.id?.toLowerCase() === existing.rowKey;
+    if (isSelf && (disabled === true || (role !== undefined && role !== 'admin'))) {
+      return NextResponse.json(
+        { error: 'You cannot disable your own account or remove your admin role' },
+        { status: 400 }
+      );
+    }
+
+    const updates: Partial<UserAccount> = {};
+    if (role !== undefined) updates.role = role;
+    if (disabled !== undefined) updates.disabled = disabled;
+    if (typeof displayName === 'string' && displayName.trim()) updates.displayName = displayName.trim();
+    if (typeof email === 'string') updates.email = email.trim() || undefined;
+
+    const user = await updateUser(username, updates);
+    return NextResponse.json({ message: 'Updated', user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json({ error: 'Failed to update user' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { createAccount, validatePassword, validateUsername } from '@/lib/auth/accounts';
+import { isRole } from '@/lib/auth/roles';
+import { getUser, listUsers, toPublicUser } from '@/lib/db/users';
+
+// GET /api/admin/users - List user accounts
+export async function GET() {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ users: users.map(toPublicUser) });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json({ error: 'Failed to list users' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/users - Create a user account
+// Body: { username, password, role, displayName?, email? }
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const body = await request.json();
+    const { username, password, role, displayName, email } = body;
+
+    const validationError = validateUsername(username) || validatePassword(password);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!isRole(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    if (await getUser(username)) {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 409 });
+    }
+
+    const user = await createAccount({ username, password, role, displayName, email });
+    return NextResponse.json({ message: 'User created', user: toPublicUser(user) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json({ error: 'Failed to create user' }, { status: 500 });
+  }
+}
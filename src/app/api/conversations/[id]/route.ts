@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireReadAccess } from '@/lib/auth/guard';
+import { deleteConversation, getConversation } from '@/lib/db/conversations';
+import { canAccessConversation, getConversationTurns } from '@/lib/search/conversations';
+
+// GET /api/conversations/[id] - A conversation with its turns and their citations
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const conversation = await getConversation(id);
+    if (!conversation || !canAccessConversation(conversation, guard.session?.user?.id)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const turns = await getConversationTurns(id);
+    return NextResponse.json({ conversation, turns });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json({ error: 'Failed to fetch conversation' }, { status: 500 });
+  }
+}
+
+// DELETE /api/conversations/[id] - Delete a conversation and its turns
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const conversation = await getConversation(id);
+    if (!conversation || !canAccessConversation(conversation, guard.session?.user?.id)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    await deleteConversation(id);
+    return NextResponse.json({ message: 'Conversation deleted' });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json({ error: 'Failed to delete conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { requireReadAccess } from '@/lib/auth/guard';
+import { createConversation, listConversations } from '@/lib/db/conversations';
+
+// GET /api/conversations - The signed-in user's conversations, most recently active first
+// Anonymous conversations are not listed; they are resumed by ID
+export async function GET() {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  try {
+    const userId = guard.session?.user?.id;
+    const conversations = userId ? await listConversations(userId) : [];
+    conversations.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    return NextResponse.json({ conversations: conversations.filter((conversation) => conversation.turnCount > 0) });
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    return NextResponse.json({ error: 'Failed to list conversations' }, { status: 500 });
+  }
+}
+
+// POST /api/conversations - Start a conversation; pass its ID to /api/search to ask follow-up questions
+export async function POST() {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  try {
+    const conversation = await createConversation(guard.session?.user?.id);
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    return NextResponse.json({ error: 'Failed to create conversation' }, { status: 500 });
+  }
+}
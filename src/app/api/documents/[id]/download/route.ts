@@ -1,15 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireReadAccess } from '@/lib/auth/guard';
 import { getDocumentById, getDocumentDownloadUrl } from '@/lib/documents/crud';
+import { canViewDocument } from '@/lib/documents/publication-states';
+import { getReplacedFiles } from '@/lib/documents/file-history';
+import { getDocumentSasUrl } from '@/lib/storage/blob-storage';
+import { recordAudit } from '@/lib/audit/audit-log';
 
+// GET /api/documents/[id]/download - Signed URL for the document's file
+// ?file=<blobName> downloads a file that was replaced in place instead
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
   try {
     const { id } = await params;
     const document = await getDocumentById(id);
-    if (!document) {
+    // Unpublished documents are hidden from viewers and anonymous visitors
+    if (!document || !canViewDocument(document, guard.session?.user?.role)) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
 
+    const replacedBlobName = request.nextUrl.searchParams.get('file');
+    if (replacedBlobName) {
+      const replaced = getReplacedFiles(document).find((file) => file.blobName === replacedBlobName);
+      if (!replaced) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 });
+      }
+
+      const downloadUrl = await getDocumentSasUrl(replaced.blobName, 60);
+      await recordAudit(request, guard.session, {
+        action: 'document.download',
+        documentId: id,
+        details: { replacedFile: replaced.blobName },
+      });
+      return NextResponse.json({
+        downloadUrl,
+        fileName: replaced.fileName || replaced.blobName,
+        fileType: replaced.fileType,
+        fileSize: replaced.fileSize,
+      });
+    }
+
     const downloadUrl = await getDocumentDownloadUrl(id, 60);
+    await recordAudit(request, guard.session, { action: 'document.download', documentId: id });
     return NextResponse.json({
       downloadUrl,
       fileName: `${document.title}.${document.fileType}`,
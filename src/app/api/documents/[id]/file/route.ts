@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getDocumentById, replaceDocumentFile } from '@/lib/documents/crud';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { validateUploadFile } from '@/lib/documents/file-validation';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
+
+// POST /api/documents/[id]/file - Replace the document's file in place
+// The ID (and every /view/[id] link) stays the same; the old file is kept as a prior revision
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const existing = await getDocumentById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing.deletedAt) {
+      return NextResponse.json({ error: 'Document is in the recycle bin' }, { status: 409 });
+    }
+
+    if (existing.status === 'processing') {
+      return NextResponse.json({ error: 'Document is being indexed - try again once it finishes' }, { status: 409 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    if (!file) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+
+    const fileError = validateUploadFile(file);
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 });
+    }
+
+    const actor = guard.session?.user?.id || guard.session?.user?.name || 'unknown';
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const document = await replaceDocumentFile(id, buffer, file.name, actor);
+
+    await recordAudit(request, guard.session, {
+      action: 'document.file_replace',
+      documentId: id,
+      before: snapshotDocument(existing),
+      after: snapshotDocument(document),
+      details: { fileName: file.name, fileSize: file.size, previousBlobName: existing.blobName },
+    });
+    if (document.status === 'processing') {
+      after(() => processIndexingJobs({ documentId: id }));
+    }
+
+    return NextResponse.json({ message: 'File replaced', document });
+  } catch (error) {
+    console.error('Replace file error:', error);
+    return NextResponse.json({ error: 'Failed to replace file' }, { status: 500 });
+  }
+}
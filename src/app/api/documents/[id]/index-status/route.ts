@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireReadAccess } from '@/lib/auth/guard';
+import { getDocumentById } from '@/lib/documents/crud';
+import { canViewDocument } from '@/lib/documents/publication-states';
+import { getSearchProvider } from '@/lib/search/search-provider';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// GET /api/documents/[id]/index-status - Indexing state of the document's search index entry
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const document = await getDocumentById(id);
+    // Unpublished documents are hidden from viewers and anonymous visitors
+    if (!document || !canViewDocument(document, guard.session?.user?.role)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const entry = document.geminiDocumentId
+      ? await getSearchProvider().getIndexedDocument(document.geminiDocumentId)
+      : null;
+
+    await recordAudit(request, guard.session, { action: 'document.index_status', documentId: id });
+
+    return NextResponse.json({
+      documentId: id,
+      status: document.status,
+      indexed: !!entry,
+      entry,
+    });
+  } catch (error) {
+    console.error('Index status error:', error);
+    return NextResponse.json({ error: 'Failed to get index status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getDocumentById } from '@/lib/documents/crud';
+import { editDocumentMetadata, parseMetadataUpdate } from '@/lib/documents/metadata';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
+
+// PATCH /api/documents/[id]/metadata - Edit title, category, version, tags and owner
+// Body: any of { title, category, version, tags: string[], owner } - owner null or '' clears it
+// Indexed documents are reindexed so search metadata matches
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const existing = await getDocumentById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing.deletedAt) {
+      return NextResponse.json({ error: 'Document is in the recycle bin' }, { status: 409 });
+    }
+
+    const update = parseMetadataUpdate(await request.json());
+    if (typeof update === 'string') {
+      return NextResponse.json({ error: update }, { status: 400 });
+    }
+
+    const { document, changes } = await editDocumentMetadata(id, update);
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ message: 'No changes', document, changes });
+    }
+
+    await recordAudit(request, guard.session, {
+      action: 'document.metadata_update',
+      documentId: id,
+      before: snapshotDocument(existing),
+      after: snapshotDocument(document),
+      details: { changes },
+    });
+    if (document.status === 'processing') {
+      after(() => processIndexingJobs({ documentId: id }));
+    }
+
+    return NextResponse.json({ message: 'Metadata updated', document, changes });
+  } catch (error) {
+    console.error('Metadata update error:', error);
+    return NextResponse.json({ error: 'Failed to update metadata' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getDocumentById, reindexDocument } from '@/lib/documents/crud';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { getPublicationState } from '@/lib/documents/publication-states';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
+
+// POST /api/documents/[id]/reindex - Remove the stale index entry and queue indexing again
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const existing = await getDocumentById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing.status === 'processing') {
+      return NextResponse.json({ error: 'Document is already being indexed' }, { status: 409 });
+    }
+
+    if (existing.deletedAt) {
+      return NextResponse.json({ error: 'Document is in the recycle bin' }, { status: 409 });
+    }
+
+    if (getPublicationState(existing) !== 'published') {
+      return NextResponse.json({ error: 'Only published documents are indexed' }, { status: 409 });
+    }
+
+    if (existing.isCurrent === false) {
+      return NextResponse.json(
+        { error: 'Superseded revisions are not indexed', currentDocumentId: existing.supersededBy },
+        { status: 409 }
+      );
+    }
+
+    const document = await reindexDocument(id);
+    await recordAudit(request, guard.session, {
+      action: 'document.reindex',
+      documentId: id,
+      before: snapshotDocument(existing),
+      after: snapshotDocument(document),
+    });
+    after(() => processIndexingJobs({ documentId: id }));
+
+    return NextResponse.json({ message: 'Reindexing queued', document }, { status: 202 });
+  } catch (error) {
+    console.error('Reindex error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reindex failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getDocumentById } from '@/lib/documents/crud';
+import { restoreDocument } from '@/lib/documents/trash';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
+
+// POST /api/documents/[id]/restore - Take a document out of the recycle bin
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const existing = await getDocumentById(id);
+    if (!existing?.deletedAt) {
+      return NextResponse.json({ error: 'Document is not in the recycle bin' }, { status: 404 });
+    }
+
+    const document = await restoreDocument(id);
+    await recordAudit(request, guard.session, {
+      action: 'document.restore',
+      documentId: id,
+      before: snapshotDocument(existing),
+      after: snapshotDocument(document),
+    });
+    if (document.status === 'processing') {
+      after(() => processIndexingJobs({ documentId: id }));
+    }
+
+    return NextResponse.json({ message: 'Restored', document });
+  } catch (error) {
+    console.error('Restore error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Restore failed' },
+      { status: 500 }
+    );
+  }
+}
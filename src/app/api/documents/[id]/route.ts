@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDocumentById, deleteDocument, updateDocumentStatus } from '@/lib/documents/crud';
+import { requireRole, requireReadAccess } from '@/lib/auth/guard';
+import { getDocumentById, updateDocumentStatus } from '@/lib/documents/crud';
+import { trashDocument } from '@/lib/documents/trash';
+import { canViewDocument } from '@/lib/documents/publication-states';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
   try {
     const { id } = await params;
     const document = await getDocumentById(id);
-    if (!document) {
+    // Unpublished documents are hidden from viewers and anonymous visitors
+    if (!document || !canViewDocument(document, guard.session?.user?.role)) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
+    await recordAudit(request, guard.session, { action: 'document.view', documentId: id });
     return NextResponse.json({ document });
   } catch (error) {
     console.error('Get error:', error);
@@ -16,6 +25,9 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 }
 
 export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -25,7 +37,18 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
     }
 
+    const existing = await getDocumentById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
     const document = await updateDocumentStatus(id, status, errorMessage);
+    await recordAudit(request, guard.session, {
+      action: 'document.status_change',
+      documentId: id,
+      before: snapshotDocument(existing),
+      after: snapshotDocument(document),
+    });
     return NextResponse.json({ message: 'Updated', document });
   } catch (error) {
     console.error('Update error:', error);
@@ -34,10 +57,25 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
 }
 
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
   try {
     const { id } = await params;
-    await deleteDocument(id);
-    return NextResponse.json({ message: 'Deleted' });
+    const existing = await getDocumentById(id);
+    if (!existing || existing.deletedAt) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const actor = guard.session?.user?.id || guard.session?.user?.name || 'unknown';
+    const trashed = await trashDocument(id, actor);
+    await recordAudit(request, guard.session, {
+      action: 'document.delete',
+      documentId: id,
+      before: snapshotDocument(existing),
+      after: snapshotDocument(trashed),
+    });
+    return NextResponse.json({ message: 'Moved to the recycle bin', document: trashed });
   } catch (error) {
     console.error('Delete error:', error);
     return NextResponse.json({ error: 'Delete failed' }, { status: 500 });
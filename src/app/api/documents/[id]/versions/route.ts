@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireReadAccess } from '@/lib/auth/guard';
+import { getDocumentById } from '@/lib/documents/crud';
+import { getRevisionHistory } from '@/lib/documents/versions';
+import { canViewDocument } from '@/lib/documents/publication-states';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// GET /api/documents/[id]/versions - Revision history of the document's policy
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const document = await getDocumentById(id);
+    // Unpublished documents are hidden from viewers and anonymous visitors
+    if (!document || !canViewDocument(document, guard.session?.user?.role)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const role = guard.session?.user?.role;
+    const history = await getRevisionHistory(document);
+    history.revisions = history.revisions.filter((revision) => canViewDocument(revision, role));
+    await recordAudit(request, guard.session, { action: 'document.versions', documentId: id });
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Version history error:', error);
+    return NextResponse.json({ error: 'Failed to get version history' }, { status: 500 });
+  }
+}
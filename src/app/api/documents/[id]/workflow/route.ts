@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { hasRole } from '@/lib/auth/roles';
+import { getDocumentById } from '@/lib/documents/crud';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { transitionDocument } from '@/lib/documents/publication';
+import {
+  getAvailableTransitions,
+  getPublicationState,
+  getTransitionRule,
+  PUBLICATION_STATE_LABELS,
+} from '@/lib/documents/publication-states';
+import { listWorkflowTransitions } from '@/lib/db/workflow-transitions';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
+
+// GET /api/documents/[id]/workflow - Publication state, history and the caller's available actions
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const document = await getDocumentById(id);
+    if (!document) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const state = getPublicationState(document);
+    return NextResponse.json({
+      state,
+      transitions: await listWorkflowTransitions(id),
+      availableActions: getAvailableTransitions(state, guard.session?.user?.role),
+    });
+  } catch (error) {
+    console.error('Workflow history error:', error);
+    return NextResponse.json({ error: 'Failed to get workflow history' }, { status: 500 });
+  }
+}
+
+// POST /api/documents/[id]/workflow - Move the document through the publication workflow
+// Body: { action: 'submit' | 'approve' | 'request_changes' | 'publish' | 'archive' | 'reopen', comment?: string }
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { action } = body;
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+
+    const rule = getTransitionRule(action);
+    if (!rule) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    const role = guard.session?.user?.role;
+    if (!hasRole(role, rule.role)) {
+      return NextResponse.json(
+        { error: `Forbidden - ${rule.role} role required to ${rule.label.toLowerCase()}` },
+        { status: 403 }
+      );
+    }
+
+    if (rule.commentRequired && !comment) {
+      return NextResponse.json({ error: 'A comment is required' }, { status: 400 });
+    }
+
+    const existing = await getDocumentById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (existing.deletedAt) {
+      return NextResponse.json({ error: 'Document is in the recycle bin' }, { status: 409 });
+    }
+
+    const state = getPublicationState(existing);
+    if (rule.from !== state) {
+      return NextResponse.json(
+        { error: `Cannot ${rule.label.toLowerCase()} a document that is ${state.replace('_', ' ')}` },
+        { status: 409 }
+      );
+    }
+
+    const actor = guard.session?.user?.id || guard.session?.user?.name || 'unknown';
+    const document = await transitionDocument(existing, rule, actor, comment || undefined);
+
+    await recordAudit(request, guard.session, {
+      action: 'document.workflow',
+      documentId: id,
+      before: snapshotDocument(existing),
+      after: snapshotDocument(document),
+      details: { workflowAction: rule.action, comment: comment || undefined },
+    });
+
+    if (document.status === 'processing') {
+      // Published - start indexing once the response has been sent
+      after(() => processIndexingJobs({ documentId: id }));
+    }
+
+    return NextResponse.json({
+      message: `Document is now ${PUBLICATION_STATE_LABELS[rule.to].toLowerCase()}`,
+      document,
+    });
+  } catch (error) {
+    console.error('Workflow transition error:', error);
+    return NextResponse.json({ error: 'Workflow transition failed' }, { status: 500 });
+  }
+}
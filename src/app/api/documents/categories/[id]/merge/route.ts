@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getCategory } from '@/lib/db/categories';
+import { mergeCategory } from '@/lib/documents/categories';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// POST /api/documents/categories/[id]/merge - Merge this category into another
+// Body: { targetId } - documents and subcategories move to the target, then this category is deleted
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const { targetId } = await request.json();
+
+    const [source, target] = await Promise.all([getCategory(id), targetId ? getCategory(targetId) : null]);
+    if (!source) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+    if (!target) {
+      return NextResponse.json({ error: 'Target category not found' }, { status: 400 });
+    }
+    if (source.id === target.id) {
+      return NextResponse.json({ error: 'A category cannot be merged into itself' }, { status: 400 });
+    }
+
+    const { updatedDocuments } = await mergeCategory(source.id, target.id);
+    await recordAudit(request, guard.session, {
+      action: 'category.merge',
+      before: { id: source.id, name: source.name, parentId: source.parentId },
+      after: { id: target.id, name: target.name, parentId: target.parentId },
+      details: { updatedDocuments },
+    });
+    if (updatedDocuments.length > 0) {
+      after(() => processIndexingJobs());
+    }
+
+    return NextResponse.json({ message: 'Categories merged', updatedDocuments });
+  } catch (error) {
+    console.error('Error merging categories:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to merge categories' },
+      { status: 500 }
+    );
+  }
+}
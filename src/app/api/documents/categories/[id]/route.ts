@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getCategory } from '@/lib/db/categories';
+import {
+  changeCategory,
+  checkCategoryPlacement,
+  removeCategory,
+  validateCategoryName,
+} from '@/lib/documents/categories';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// PATCH /api/documents/categories/[id] - Rename or move a category
+// Body: { name?, parentId? } - parentId null moves it to the top level
+// Documents under the category are updated to the new path and reindexed
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const existing = await getCategory(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const name: string = body.name ?? existing.name;
+    const parentId: string | undefined = body.parentId === undefined ? existing.parentId : body.parentId || undefined;
+
+    const validationError = validateCategoryName(name);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const placementError = await checkCategoryPlacement({ name, parentId, excludeId: id });
+    if (placementError) {
+      return NextResponse.json({ error: placementError }, { status: 409 });
+    }
+
+    const { category, updatedDocuments } = await changeCategory(id, { name, parentId: parentId ?? null });
+    await recordAudit(request, guard.session, {
+      action: 'category.update',
+      before: { id, name: existing.name, parentId: existing.parentId },
+      after: { id, name: category.name, parentId: category.parentId },
+      details: { updatedDocuments },
+    });
+    if (updatedDocuments.length > 0) {
+      after(() => processIndexingJobs());
+    }
+
+    return NextResponse.json({ message: 'Category updated', category, updatedDocuments });
+  } catch (error) {
+    console.error('Error updating category:', error);
+    return NextResponse.json({ error: 'Failed to update category' }, { status: 500 });
+  }
+}
+
+// DELETE /api/documents/categories/[id] - Delete an empty category
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const existing = await getCategory(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+
+    const error = await removeCategory(id);
+    if (error) {
+      return NextResponse.json({ error }, { status: 409 });
+    }
+
+    await recordAudit(request, guard.session, {
+      action: 'category.delete',
+      before: { id, name: existing.name, parentId: existing.parentId },
+    });
+    return NextResponse.json({ message: 'Category deleted' });
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    return NextResponse.json({ error: 'Failed to delete category' }, { status: 500 });
+  }
+}
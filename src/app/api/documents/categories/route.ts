@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, requireReadAccess } from '@/lib/auth/guard';
+import {
+  addCategory,
+  checkCategoryPlacement,
+  ensureCategoryPath,
+  getCategoryOverview,
+  validateCategoryName,
+  validateCategoryPath,
+} from '@/lib/documents/categories';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// GET /api/documents/categories - List the category tree with document counts
+export async function GET() {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  try {
+    const overview = await getCategoryOverview();
+    return NextResponse.json(overview);
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    return NextResponse.json({ error: 'Failed to fetch categories' }, { status: 500 });
+  }
+}
+
+// POST /api/documents/categories - Create a category
+// Body: { name, parentId? }, or { path } to add a whole path such as "Renal > Peritoneal Dialysis"
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { name, parentId, path } = await request.json();
+
+    if (path !== undefined) {
+      const pathError = validateCategoryPath(path);
+      if (pathError) {
+        return NextResponse.json({ error: pathError }, { status: 400 });
+      }
+
+      const created = await ensureCategoryPath(path);
+      await recordAudit(request, guard.session, {
+        action: 'category.create',
+        after: { path: created },
+      });
+      return NextResponse.json({ message: 'Category created', path: created }, { status: 201 });
+    }
+
+    const validationError = validateCategoryName(name);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const placementError = await checkCategoryPlacement({ name, parentId: parentId || undefined });
+    if (placementError) {
+      return NextResponse.json({ error: placementError }, { status: 409 });
+    }
+
+    const category = await addCategory(name, parentId || undefined);
+    await recordAudit(request, guard.session, {
+      action: 'category.create',
+      after: { id: category.id, name: category.name, parentId: category.parentId },
+    });
+    return NextResponse.json({ message: 'Category created', category }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating category:', error);
+    return NextResponse.json({ error: 'Failed to create category' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getDocumentImport, listImportRows } from '@/lib/db/document-imports';
+import { importRowsToCsv } from '@/lib/documents/bulk-import';
+
+// GET /api/documents/import/[id]/report - Download the per-row results as CSV
+// Rows not yet imported are listed as pending while the import is processing
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const documentImport = await getDocumentImport(id);
+    if (!documentImport) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const rows = await listImportRows(id);
+    const fileName = `import-report-${new Date(documentImport.createdAt).toISOString().slice(0, 10)}-${id.slice(0, 8)}.csv`;
+    return new NextResponse(importRowsToCsv(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting import report:', error);
+    return NextResponse.json({ error: 'Failed to export import report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getDocumentImport, listImportRows } from '@/lib/db/document-imports';
+
+// GET /api/documents/import/[id] - A bulk import with its per-row results
+// Polled for progress while the import is processing
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const documentImport = await getDocumentImport(id);
+    if (!documentImport) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const rows = await listImportRows(id);
+    return NextResponse.json({ import: documentImport, rows });
+  } catch (error) {
+    console.error('Error fetching import:', error);
+    return NextResponse.json({ error: 'Failed to fetch import' }, { status: 500 });
+  }
+}
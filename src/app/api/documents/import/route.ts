@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { importDocumentArchive, processDocumentImport, MAX_IMPORT_ARCHIVE_SIZE } from '@/lib/documents/bulk-import';
+import { listDocumentImports } from '@/lib/db/document-imports';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// Leave headroom below the platform function timeout; the indexing worker
+// picks up rows left over
+const TIME_BUDGET_MS = 20 * 1000;
+
+// GET /api/documents/import - Previous bulk imports, newest first
+export async function GET() {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const imports = await listDocumentImports();
+    return NextResponse.json({ imports });
+  } catch (error) {
+    console.error('Error listing imports:', error);
+    return NextResponse.json({ error: 'Failed to list imports' }, { status: 500 });
+  }
+}
+
+// POST /api/documents/import - Create draft documents from a ZIP archive with manifest.csv
+// Rows are validated here and imported in the background; poll GET /api/documents/import/[id] for progress
+// Form fields: file (the ZIP), allowDuplicates? ('true' to import files already in the library)
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const allowDuplicates = formData.get('allowDuplicates') === 'true';
+
+    if (!file) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+      return NextResponse.json({ error: 'Only ZIP archives can be imported' }, { status: 400 });
+    }
+
+    if (file.size > MAX_IMPORT_ARCHIVE_SIZE) {
+      return NextResponse.json({ error: 'Archive size must be less than 500MB' }, { status: 400 });
+    }
+
+    const actor = guard.session?.user?.id || guard.session?.user?.name || 'unknown';
+    const result = await importDocumentArchive(Buffer.from(await file.arrayBuffer()), {
+      archiveName: file.name,
+      importedBy: actor,
+      allowDuplicates,
+    });
+    if (typeof result === 'string') {
+      return NextResponse.json({ error: result }, { status: 400 });
+    }
+
+    const { documentImport, rows } = result;
+    await recordAudit(request, guard.session, {
+      action: 'document.import',
+      details: {
+        importId: documentImport.id,
+        archiveName: file.name,
+        state: documentImport.state,
+        total: documentImport.total,
+        succeeded: documentImport.succeeded,
+        failed: documentImport.failed,
+      },
+    });
+
+    if (documentImport.state === 'rejected') {
+      return NextResponse.json(
+        {
+          error: `${documentImport.failed} of ${documentImport.total} rows are invalid - nothing was imported`,
+          import: documentImport,
+          rows,
+        },
+        { status: 400 }
+      );
+    }
+
+    after(() => processDocumentImport(documentImport.id, { timeBudgetMs: TIME_BUDGET_MS }));
+
+    return NextResponse.json({
+      message: `Importing ${documentImport.total} documents as drafts`,
+      import: documentImport,
+      rows,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error importing documents:', error);
+    return NextResponse.json({ error: 'Failed to import documents' }, { status: 500 });
+  }
+}
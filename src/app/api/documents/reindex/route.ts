@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { reindexAllDocuments } from '@/lib/documents/crud';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// POST /api/documents/reindex - Queue reindexing for every document (or only failed ones)
+// Body: { status?: 'ready' | 'failed' }
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { status } = body as { status?: string };
+
+    if (status !== undefined && !['ready', 'failed'].includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const result = await reindexAllDocuments(status as 'ready' | 'failed' | undefined);
+    await recordAudit(request, guard.session, {
+      action: 'document.reindex_all',
+      details: {
+        status: status || 'all',
+        queued: result.queued.length,
+        skipped: result.skipped.length,
+        errors: result.errors.length,
+      },
+    });
+    if (result.queued.length > 0) {
+      after(() => processIndexingJobs());
+    }
+
+    return NextResponse.json({
+      message: `Queued ${result.queued.length} document(s) for reindexing`,
+      ...result,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Bulk reindex error:', error);
+    return NextResponse.json({ error: 'Bulk reindex failed' }, { status: 500 });
+  }
+}
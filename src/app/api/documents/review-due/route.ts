@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getReviewDashboard } from '@/lib/documents/review-dashboard';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// GET /api/documents/review-due - Live documents overdue or due for review in 30/60/90 days
+export async function GET(request: NextRequest) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const dashboard = await getReviewDashboard();
+    await recordAudit(request, guard.session, {
+      action: 'document.review_dashboard',
+      details: { overdue: dashboard.overdue.length },
+    });
+    return NextResponse.json(dashboard);
+  } catch (error) {
+    console.error('Review dashboard error:', error);
+    return NextResponse.json({ error: 'Failed to load review dashboard' }, { status: 500 });
+  }
+}
@@ -1,10 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllDocuments, uploadAndCreateDocument } from '@/lib/documents/crud';
+import { requireRole, requireReadAccess } from '@/lib/auth/guard';
+import {
+  computeContentHash,
+  findDocumentsByContentHash,
+  getAllDocuments,
+  getDocumentById,
+  uploadAndCreateDocument,
+} from '@/lib/documents/crud';
+import { getCurrentRevisionId } from '@/lib/documents/versions';
+import { parseDocumentQuery, queryDocuments } from '@/lib/documents/document-query';
+import { canViewDocument } from '@/lib/documents/publication-states';
+import { isValidDateString } from '@/lib/documents/review-dates';
+import { ensureCategoryPath, validateCategoryPath } from '@/lib/documents/categories';
+import { validateUploadFile } from '@/lib/documents/file-validation';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
+
+// GET /api/documents - List documents
+// ?pageSize= returns one page: { documents, continuationToken?, total? } filtered by
+// ?category=&status=&q= and ordered by ?sort= (field, "-" prefix for descending).
+// Without pageSize every visible document is returned.
+// ?refresh=true marks a background re-read of the same view (e.g. polling) and is not audited.
+export async function GET(request: NextRequest) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
 
-// GET /api/documents - List all documents
-export async function GET() {
   try {
-    const documents = await getAllDocuments();
+    const role = guard.session?.user?.role;
+    const { searchParams } = request.nextUrl;
+    const isRefresh = searchParams.get('refresh') === 'true';
+
+    if (searchParams.has('pageSize')) {
+      const query = parseDocumentQuery(searchParams);
+      if (typeof query === 'string') {
+        return NextResponse.json({ error: query }, { status: 400 });
+      }
+
+      const page = await queryDocuments(query, role);
+      if (!isRefresh) {
+        await recordAudit(request, guard.session, {
+          action: 'document.list',
+          details: {
+            count: page.documents.length,
+            category: query.category,
+            status: query.status,
+            q: query.q,
+          },
+        });
+      }
+      return NextResponse.json(page);
+    }
+
+    // Documents in the recycle bin are listed separately (see /api/documents/trash)
+    const documents = (await getAllDocuments()).filter(
+      (doc) => !doc.deletedAt && canViewDocument(doc, role)
+    );
+    if (!isRefresh) {
+      await recordAudit(request, guard.session, {
+        action: 'document.list',
+        details: { count: documents.length },
+      });
+    }
     return NextResponse.json({ documents });
   } catch (error) {
     console.error('Error fetching documents:', error);
@@ -17,6 +72,9 @@ export async function GET() {
 
 // POST /api/documents - Upload a new document
 export async function POST(request: NextRequest) {
+  const guard = await requireRole('editor');
+  if (!guard.ok) return guard.response;
+
   try {
     const formData = await request.formData();
 
@@ -24,6 +82,11 @@ export async function POST(request: NextRequest) {
     const title = formData.get('title') as string;
     const category = formData.get('category') as string;
     const version = formData.get('version') as string;
+    const supersedesId = formData.get('supersedes') as string | null;
+    const allowDuplicate = formData.get('allowDuplicate') === 'true';
+    const effectiveDate = (formData.get('effectiveDate') as string | null) || undefined;
+    const reviewDate = (formData.get('reviewDate') as string | null) || undefined;
+    const owner = (formData.get('owner') as string | null)?.trim() || undefined;
 
     // Validation
     if (!file) {
@@ -40,42 +103,94 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate file type
-    const allowedTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/msword',
-    ];
+    const categoryError = validateCategoryPath(category);
+    if (categoryError) {
+      return NextResponse.json({ error: categoryError }, { status: 400 });
+    }
+
+    if ((effectiveDate && !isValidDateString(effectiveDate)) || (reviewDate && !isValidDateString(reviewDate))) {
+      return NextResponse.json(
+        { error: 'Effective and review dates must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
 
-    if (!allowedTypes.includes(file.type)) {
+    if (effectiveDate && reviewDate && reviewDate <= effectiveDate) {
       return NextResponse.json(
-        { error: 'Only PDF and DOCX files are allowed' },
+        { error: 'Review date must be after the effective date' },
         { status: 400 }
       );
     }
 
-    // Validate file size (100MB max)
-    const maxSize = 100 * 1024 * 1024; // 100MB in bytes
-    if (file.size > maxSize) {
+    // Validate file type and size
+    const fileError = validateUploadFile(file);
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 });
+    }
+
+    // A new revision must replace the current revision of its policy
+    const supersedes = supersedesId ? await getDocumentById(supersedesId) : null;
+    if (supersedesId && !supersedes) {
       return NextResponse.json(
-        { error: 'File size must be less than 100MB' },
+        { error: 'The document being replaced was not found' },
         { status: 400 }
       );
     }
 
+    if (supersedes?.isCurrent === false) {
+      return NextResponse.json(
+        { error: 'Only the current revision can be replaced', currentDocumentId: supersedes.supersededBy },
+        { status: 409 }
+      );
+    }
+
     // Convert File to Buffer
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
-    // Upload and create document
+    // The same file twice duplicates citations in answers - let the uploader decide
+    const contentHash = computeContentHash(buffer);
+    if (!allowDuplicate) {
+      const [existing] = await findDocumentsByContentHash(contentHash);
+      if (existing) {
+        return NextResponse.json(
+          {
+            error: `This file has already been uploaded as "${existing.title}"`,
+            duplicate: true,
+            existingDocument: existing,
+            currentDocumentId: await getCurrentRevisionId(existing),
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // File free-text categories under their managed spelling
+    const categoryPath = await ensureCategoryPath(category);
+
+    // Upload and create document as a draft (indexed once published)
     const document = await uploadAndCreateDocument(
       buffer,
       file.name,
-      { title, category, version }
+      { title, category: categoryPath, version, effectiveDate, reviewDate, owner },
+      { supersedes: supersedes || undefined, contentHash }
     );
 
+    await recordAudit(request, guard.session, {
+      action: 'document.upload',
+      documentId: document.id,
+      after: snapshotDocument(document),
+      details: {
+        fileName: file.name,
+        fileSize: file.size,
+        contentHash,
+        supersedes: supersedesId || undefined,
+        allowedDuplicate: allowDuplicate || undefined,
+      },
+    });
+
     return NextResponse.json({
-      message: 'Document uploaded successfully',
+      message: 'Document uploaded as a draft',
       document,
     }, { status: 201 });
 
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getDocumentById, purgeDocument } from '@/lib/documents/crud';
+import { recordAudit, snapshotDocument } from '@/lib/audit/audit-log';
+
+// DELETE /api/documents/trash/[id] - Permanently delete a document in the recycle bin
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const { id } = await params;
+    const existing = await getDocumentById(id);
+    if (!existing?.deletedAt) {
+      return NextResponse.json({ error: 'Document is not in the recycle bin' }, { status: 404 });
+    }
+
+    await purgeDocument(id);
+    await recordAudit(request, guard.session, {
+      action: 'document.purge',
+      documentId: id,
+      before: snapshotDocument(existing),
+    });
+    return NextResponse.json({ message: 'Deleted permanently' });
+  } catch (error) {
+    console.error('Purge error:', error);
+    return NextResponse.json({ error: 'Delete failed' }, { status: 500 });
+  }
+}
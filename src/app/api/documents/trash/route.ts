@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth/guard';
+import { getPurgeDate, getTrashRetentionDays, listTrashedDocuments, purgeTrash } from '@/lib/documents/trash';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// GET /api/documents/trash - List documents in the recycle bin
+export async function GET() {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const documents = await listTrashedDocuments();
+    return NextResponse.json({
+      retentionDays: getTrashRetentionDays(),
+      documents: documents.map((doc) => ({ ...doc, purgeAt: getPurgeDate(doc) })),
+    });
+  } catch (error) {
+    console.error('List trash error:', error);
+    return NextResponse.json({ error: 'Failed to fetch recycle bin' }, { status: 500 });
+  }
+}
+
+// DELETE /api/documents/trash - Empty the recycle bin
+export async function DELETE(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.ok) return guard.response;
+
+  try {
+    const result = await purgeTrash();
+    for (const id of result.purged) {
+      await recordAudit(request, guard.session, {
+        action: 'document.purge',
+        documentId: id,
+      });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Empty trash error:', error);
+    return NextResponse.json({ error: 'Failed to empty recycle bin' }, { status: 500 });
+  }
+}
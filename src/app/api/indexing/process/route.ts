@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processIndexingJobs } from '@/lib/documents/indexing-queue';
+import { processDocumentImports } from '@/lib/documents/bulk-import';
+import { isWorkerRequest } from '@/lib/auth/worker';
+
+// Leave headroom below the platform function timeout
+const TIME_BUDGET_MS = 20 * 1000;
+
+// POST /api/indexing/process - Continue unfinished bulk imports, then advance queued and running indexing jobs
+// Called by the scheduled Netlify function (or any cron) with INDEXING_WORKER_SECRET; refused when it is unset
+export async function POST(request: NextRequest) {
+  if (!isWorkerRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const startedAt = Date.now();
+    const imports = await processDocumentImports({ timeBudgetMs: TIME_BUDGET_MS });
+    const result = await processIndexingJobs({ timeBudgetMs: Math.max(0, TIME_BUDGET_MS - (Date.now() - startedAt)) });
+    return NextResponse.json({ ...result, imports });
+  } catch (error) {
+    console.error('Indexing worker error:', error);
+    return NextResponse.json({ error: 'Failed to process indexing jobs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeTrash } from '@/lib/documents/trash';
+import { isWorkerRequest } from '@/lib/auth/worker';
+
+// POST /api/maintenance/purge-trash - Permanently delete documents past the recycle bin retention period
+// Called by the scheduled Netlify function (or any cron) with INDEXING_WORKER_SECRET; refused when it is unset
+export async function POST(request: NextRequest) {
+  if (!isWorkerRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeTrash({ expiredOnly: true });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Purge trash error:', error);
+    return NextResponse.json({ error: 'Failed to purge recycle bin' }, { status: 500 });
+  }
+}
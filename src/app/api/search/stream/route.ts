@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireReadAccess } from '@/lib/auth/guard';
+import { getSearchProvider, type SearchTurn } from '@/lib/search/search-provider';
+import { addReviewStatus } from '@/lib/search/citations';
+import { appendConversationTurn, getConversationHistory } from '@/lib/search/conversations';
+import { validateSearchFilters } from '@/lib/search/filters';
+import { formatSseEvent, type SearchStreamEventName, type SearchStreamEvents } from '@/lib/search/sse';
+import { recordAudit } from '@/lib/audit/audit-log';
+
+// POST /api/search/stream - Same as /api/search, but streams the answer as server-sent events:
+// 'token' events with answer text as it is generated, then 'done' with the citations (or 'error')
+export async function POST(request: NextRequest) {
+  const guard = await requireReadAccess();
+  if (!guard.ok) return guard.response;
+
+  const { query, conversationId, filters: rawFilters } = await request.json().catch(() => ({}));
+  if (!query || typeof query !== 'string' || query.trim().length === 0) {
+    return NextResponse.json(
+      { error: 'Query is required' },
+      { status: 400 }
+    );
+  }
+
+  if (conversationId !== undefined && typeof conversationId !== 'string') {
+    return NextResponse.json({ error: 'Invalid conversationId' }, { status: 400 });
+  }
+
+  const filters = validateSearchFilters(rawFilters);
+  if (typeof filters === 'string') {
+    return NextResponse.json({ error: filters }, { status: 400 });
+  }
+
+  // Follow-up questions are answered with the conversation's earlier turns
+  let history: SearchTurn[] | null | undefined;
+  try {
+    history = conversationId
+      ? await getConversationHistory(conversationId, guard.session?.user?.id)
+      : undefined;
+  } catch (error) {
+    console.error('Error loading conversation:', error);
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+  }
+  if (history === null) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = <E extends SearchStreamEventName>(event: E, data: SearchStreamEvents[E]) => {
+        if (!cancelled) controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+      };
+
+      try {
+        const result = await getSearchProvider().streamAnswer(query, (text) => send('token', { text }), { history, filters });
+        const citations = await addReviewStatus(result.citations);
+        if (conversationId) {
+          // The answer has been streamed already - a storage failure must not replace it with an error
+          try {
+            await appendConversationTurn(conversationId, query, { ...result, citations });
+          } catch (error) {
+            console.error('Error saving conversation turn:', error);
+          }
+        }
+        await recordAudit(request, guard.session, {
+          action: 'search.query',
+          details: {
+            query,
+            conversationId,
+            filters,
+            streamed: true,
+            citedDocumentIds: citations
+              .filter((citation) => !citation.unresolved)
+              .map((citation) => citation.documentId),
+          },
+        });
+        send('done', {
+          answer: result.answer,
+          citations,
+          chunkToCitationMap: result.chunkToCitationMap,
+          groundingSupports: result.groundingSupports,
+        });
+      } catch (error) {
+        console.error('Streaming search error:', error);
+        send('error', { error: 'Search failed', details: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // The client went away - stop writing, the answer is discarded
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
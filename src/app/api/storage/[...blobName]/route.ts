@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBlobStorageProvider, downloadDocument, documentExists } from '@/lib/storage/blob-storage';
+import { getLocalContentType } from '@/lib/storage/local-storage';
+import { verifySignedBlobUrl } from '@/lib/storage/signed-url';
+
+// GET /api/storage/[...blobName] - Serve a local blob via a signed, expiring URL
+export async function GET(request: NextRequest, { params }: { params: Promise<{ blobName: string[] }> }) {
+  try {
+    if (getBlobStorageProvider() !== 'local') {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const { blobName: segments } = await params;
+    const blobName = segments.join('/');
+    const { searchParams } = request.nextUrl;
+
+    if (!verifySignedBlobUrl(blobName, searchParams.get('expires'), searchParams.get('signature'))) {
+      return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403 });
+    }
+
+    if (!(await documentExists(blobName))) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const buffer = await downloadDocument(blobName);
+    const contentType = await getLocalContentType(blobName);
+    const fileName = blobName.split('/').pop() || blobName;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': buffer.length.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(fileName)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Storage download error:', error);
+    return NextResponse.json({ error: 'Failed to read document' }, { status: 500 });
+  }
+}
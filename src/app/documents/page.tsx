@@ -3,13 +3,17 @@
 import { useState, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { signOut, useSession } from 'next-auth/react';
-import { LogOut } from 'lucide-react';
+import Link from 'next/link';
+import { CalendarClock, DatabaseBackup, FolderTree, History, LogOut, Trash2, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { UploadDocumentDialog } from '@/components/documents/upload-document-dialog';
+import { ImportDocumentsDialog } from '@/components/documents/import-documents-dialog';
 import { DocumentList } from '@/components/documents/document-list';
 import { DocumentViewer } from '@/components/documents/document-viewer';
 import type { Document } from '@/lib/db/table-storage';
+import type { CategorySummary } from '@/lib/documents/categories';
 import { AppHeader } from '@/components/layout/app-header';
+import { hasRole } from '@/lib/auth/roles';
 
 function DocumentsContent() {
   const searchParams = useSearchParams();
@@ -56,7 +60,7 @@ function DocumentsContent() {
       const response = await fetch('/api/documents/categories');
       const data = await response.json();
       if (response.ok) {
-        setCategories(data.categories);
+        setCategories(data.categories.map((category: CategorySummary) => category.path));
       }
     } catch (error) {
       console.error('Failed to fetch categories:', error);
@@ -101,9 +105,55 @@ function DocumentsContent() {
                 {session.user.name}
               </span>
             )}
+            {hasRole(session?.user?.role, 'editor') && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/documents/reviews">
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                  Reviews
+                </Link>
+              </Button>
+            )}
+            {session?.user?.role === 'admin' && (
+              <>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/admin/audit">
+                    <History className="mr-2 h-4 w-4" />
+                    Audit Log
+                  </Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/admin/backup">
+                    <DatabaseBackup className="mr-2 h-4 w-4" />
+                    Backup
+                  </Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/admin/categories">
+                    <FolderTree className="mr-2 h-4 w-4" />
+                    Categories
+                  </Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/admin/trash">
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Recycle Bin
+                  </Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/admin/users">
+                    <Users className="mr-2 h-4 w-4" />
+                    Users
+                  </Link>
+                </Button>
+              </>
+            )}
+            {hasRole(session?.user?.role, 'editor') && (
+              <ImportDocumentsDialog onImportComplete={handleUploadSuccess} />
+            )}
             <UploadDocumentDialog
               onUploadSuccess={handleUploadSuccess}
               categories={categories}
+              documents={documents}
             />
             <Button variant="outline" size="sm" onClick={handleSignOut}>
               <LogOut className="mr-2 h-4 w-4" />
@@ -125,6 +175,7 @@ function DocumentsContent() {
         <DocumentList
           onViewDocument={handleViewDocument}
           refreshTrigger={refreshTrigger}
+          categories={categories}
         />
       </main>
 
@@ -1,136 +1,232 @@
 'use client';
 
-import { useState } from 'react';
-import { Search, Loader2, ExternalLink } from 'lucide-react';
+import { useState, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Search, Loader2, MessageSquarePlus, MessagesSquare, Trash2 } from 'lucide-react';
 import Link from 'next/link';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AppHeader } from '@/components/layout/app-header';
+import { MarkdownWithCitations } from '@/components/search/markdown-with-citations';
+import { CitationList } from '@/components/search/citation-list';
+import { SearchFilterChips } from '@/components/search/search-filter-chips';
+import { readSseStream, type SearchStreamEvents } from '@/lib/search/sse';
+import type { Citation, SearchFilters } from '@/lib/search/search-provider';
+import type { CategorySummary } from '@/lib/documents/categories';
+import type { Conversation } from '@/lib/db/conversations';
+import type { ConversationTurn } from '@/lib/search/conversations';
+import { formatDate } from '@/lib/utils';
 
-interface Citation {
-  index: number;
-  documentId: string;
-  title: string;
-  snippet: string;
-}
-
-interface SearchResult {
+interface ChatTurn {
+  question: string;
   answer: string;
   citations: Citation[];
   chunkToCitationMap?: Record<number, number>;
+  /** The answer is still streaming */
+  pending?: boolean;
 }
 
-// Custom component to render markdown with clickable inline citations
-function MarkdownWithCitations({
-  content,
-  citations,
-  chunkToCitationMap
-}: {
-  content: string;
-  citations: Citation[];
-  chunkToCitationMap?: Record<number, number>;
-}) {
-  // Process the markdown to make citation numbers clickable
-  // The numbers in the text [1], [2], [3] refer to chunk indices (0-indexed in the map)
-  const processedContent = content.replace(/\[(\d+)\]/g, (match, num) => {
-    const chunkNum = parseInt(num, 10);
-
-    // If we have a mapping, use it to find the correct citation
-    if (chunkToCitationMap) {
-      // Chunk indices are 0-based, but displayed as 1-based in text
-      const chunkIndex = chunkNum - 1;
-      const citationIndex = chunkToCitationMap[chunkIndex];
-
-      if (citationIndex !== undefined) {
-        const citation = citations.find(c => c.index === citationIndex);
-        if (citation) {
-          return `[${citationIndex}](#citation-${citationIndex} "${citation.title}")`;
-        }
+const EXAMPLE_QUESTIONS = [
+  'What are equipment requirements for water quality testing?',
+  'Fungal peritonitis prophylaxis guidelines',
+];
+
+function SearchContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { status } = useSession();
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  // ?document=<id> comes from "Ask about this document" in the document list
+  const [filters, setFilters] = useState<SearchFilters>(() => ({
+    currentOnly: true,
+    documentId: searchParams.get('document') || undefined,
+  }));
+  const [documentTitle, setDocumentTitle] = useState<string>();
+
+  // ?c=<id> resumes a conversation (links, reloads and the history list)
+  const requestedConversationId = searchParams.get('c');
+
+  const fetchConversations = async () => {
+    try {
+      const response = await fetch('/api/conversations');
+      const data = await response.json();
+      if (response.ok) {
+        setConversations(data.conversations);
       }
-    } else {
-      // Fallback: direct mapping (old behavior)
-      const citationIndex = chunkNum - 1;
-      const citation = citations[citationIndex];
-      if (citation) {
-        return `[${chunkNum}](#citation-${chunkNum} "${citation.title}")`;
+    } catch (err) {
+      console.error('Failed to fetch conversations:', err);
+    }
+  };
+
+  const loadConversation = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load conversation');
+        router.replace('/');
+        return;
       }
+
+      setConversationId(id);
+      setTurns((data.turns as ConversationTurn[]).map((turn) => ({
+        question: turn.question,
+        answer: turn.answer,
+        citations: turn.citations,
+        chunkToCitationMap: turn.chunkToCitationMap,
+      })));
+    } catch (err) {
+      setError('Network error - please try again');
     }
+  };
 
-    return match;
-  });
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/documents/categories');
+      const data = await response.json();
+      if (response.ok) {
+        setCategories(data.categories.map((category: CategorySummary) => category.path));
+      }
+    } catch (err) {
+      console.error('Failed to fetch categories:', err);
+    }
+  };
 
-  return (
-    <div className="prose prose-sm max-w-none dark:prose-invert">
-      <ReactMarkdown
-        remarkPlugins={[remarkGfm]}
-        components={{
-          a: ({ node, href, children, ...props }) => {
-            // Handle citation links specially
-            if (href?.startsWith('#citation-')) {
-              const citationNum = href.replace('#citation-', '');
-              const citationIndex = parseInt(citationNum, 10);
-
-              // Find citation by its index property (not array position)
-              const citation = citations.find(c => c.index === citationIndex);
-
-              // If citation or documentId is missing, just show the number without link
-              if (!citation || !citation.documentId) {
-                return <span className="text-primary font-semibold">[{citationNum}]</span>;
-              }
-
-              return (
-                <Link
-                  href={`/view/${citation.documentId}`}
-                  className="inline-flex items-center text-primary font-semibold no-underline hover:underline"
-                  title={citation.title}
-                  {...props}
-                >
-                  [{citationNum}]
-                </Link>
-              );
-            }
-            // Regular links
-            return <a href={href} {...props}>{children}</a>;
-          },
-        }}
-      >
-        {processedContent}
-      </ReactMarkdown>
-    </div>
-  );
-}
+  const fetchDocumentTitle = async (id: string) => {
+    try {
+      const response = await fetch(`/api/documents/${id}`);
+      const data = await response.json();
+      if (response.ok) {
+        setDocumentTitle(data.document.title);
+      }
+    } catch (err) {
+      console.error('Failed to fetch document:', err);
+    }
+  };
 
-export default function SearchPage() {
-  const [query, setQuery] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<SearchResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    if (filters.documentId) {
+      fetchDocumentTitle(filters.documentId);
+    }
+  }, [filters.documentId]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchConversations();
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (requestedConversationId && requestedConversationId !== conversationId) {
+      loadConversation(requestedConversationId);
+    }
+  }, [requestedConversationId]);
+
+  const updateLastTurn = (update: (turn: ChatTurn) => ChatTurn) => {
+    setTurns((previous) => [...previous.slice(0, -1), update(previous[previous.length - 1])]);
+  };
+
+  const handleNewConversation = () => {
+    setConversationId(null);
+    setTurns([]);
+    setError(null);
+    setQuery('');
+    router.replace('/');
+  };
+
+  const handleDeleteConversation = async (conversation: Conversation) => {
+    if (!confirm(`Delete the conversation "${conversation.title || 'Untitled'}"?`)) return;
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete conversation');
+      }
+      if (conversation.id === conversationId) {
+        handleNewConversation();
+      }
+      fetchConversations();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete conversation');
+    }
+  };
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!query.trim()) return;
+    const question = query.trim();
+    if (!question || loading) return;
 
     setLoading(true);
     setError(null);
-    setResult(null);
 
     try {
-      const response = await fetch('/api/search', {
+      // The first question starts a conversation so follow-ups keep its context
+      let id = conversationId;
+      if (!id) {
+        const response = await fetch('/api/conversations', { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Search failed');
+          return;
+        }
+        id = data.conversation.id as string;
+        setConversationId(id);
+        router.replace(`/?c=${id}`);
+      }
+
+      setTurns((previous) => [...previous, { question, answer: '', citations: [], pending: true }]);
+      setQuery('');
+
+      const response = await fetch('/api/search/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({ query: question, conversationId: id, filters }),
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
         setError(data.error || 'Search failed');
+        setTurns((previous) => previous.slice(0, -1));
+        setQuery(question);
         return;
       }
 
-      setResult(data);
+      // Show the answer as it is generated; citation links resolve once 'done' arrives
+      await readSseStream(response.body, (event, data) => {
+        if (event === 'token') {
+          const { text } = data as SearchStreamEvents['token'];
+          updateLastTurn((turn) => ({ ...turn, answer: turn.answer + text }));
+        } else if (event === 'done') {
+          const result = data as SearchStreamEvents['done'];
+          updateLastTurn((turn) => ({
+            question: turn.question,
+            answer: result.answer,
+            citations: result.citations,
+            chunkToCitationMap: result.chunkToCitationMap,
+          }));
+        } else if (event === 'error') {
+          setError((data as SearchStreamEvents['error']).error || 'Search failed');
+          setTurns((previous) => previous.slice(0, -1));
+          setQuery(question);
+        }
+      });
+
+      if (status === 'authenticated') {
+        fetchConversations();
+      }
     } catch (err) {
       setError('Network error - please try again');
     } finally {
@@ -138,6 +234,45 @@ export default function SearchPage() {
     }
   };
 
+  const searchForm = (
+    <form onSubmit={handleSearch} className="mb-8">
+      <div className="flex items-center gap-3 rounded-full border border-border/70 bg-background/95 px-4 py-2.5 shadow-sm transition focus-within:border-primary focus-within:shadow-lg">
+        <Search className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={turns.length > 0
+            ? 'Ask a follow-up question (e.g., What about for children?)'
+            : 'Ask a question (e.g., What is the remote work policy?)'}
+          className="flex-1 min-w-[180px] border-none bg-transparent text-base text-foreground placeholder:text-muted-foreground focus:outline-none"
+          disabled={loading}
+        />
+        <button
+          type="submit"
+          className="inline-flex items-center gap-2 rounded-full bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground shadow-sm transition hover:bg-primary/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40 focus-visible:ring-offset-2 focus-visible:ring-offset-background disabled:pointer-events-none disabled:opacity-70"
+          disabled={loading}
+        >
+          {loading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="h-4 w-4" />
+          )}
+          <span>{loading ? 'Searching…' : turns.length > 0 ? 'Ask' : 'Search'}</span>
+        </button>
+      </div>
+      <div className="mt-3">
+        <SearchFilterChips
+          filters={filters}
+          onChange={setFilters}
+          categories={categories}
+          documentTitle={documentTitle}
+          disabled={loading}
+        />
+      </div>
+    </form>
+  );
+
   return (
     <div className="min-h-screen bg-background">
       <AppHeader
@@ -151,137 +286,148 @@ export default function SearchPage() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-12">
         <div className="max-w-3xl mx-auto">
-          {/* Hero Section */}
-          <div className="text-center mb-10 space-y-4">
-            <h1 className="text-6xl font-black italic tracking-[-0.05em] sm:text-7xl">
-              <span className="inline-block bg-gradient-to-r from-sky-400 via-blue-500 to-cyan-600 bg-clip-text text-transparent drop-shadow-md">
-                PGC+
-              </span>
-            </h1>
-            <p className="text-lg text-muted-foreground">
-              Ask questions and get AI-powered answers from your documents
-            </p>
-          </div>
-
-          {/* Search Form */}
-          <form onSubmit={handleSearch} className="mb-8">
-            <div className="space-y-4">
-              <div className="flex items-center gap-3 rounded-full border border-border/70 bg-background/95 px-4 py-2.5 shadow-sm transition focus-within:border-primary focus-within:shadow-lg">
-                <Search className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
-                <input
-                  type="text"
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  placeholder="Ask a question (e.g., What is the remote work policy?)"
-                  className="flex-1 min-w-[180px] border-none bg-transparent text-base text-foreground placeholder:text-muted-foreground focus:outline-none"
-                  disabled={loading}
-                />
-                <button
-                  type="submit"
-                  className="inline-flex items-center gap-2 rounded-full bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground shadow-sm transition hover:bg-primary/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40 focus-visible:ring-offset-2 focus-visible:ring-offset-background disabled:pointer-events-none disabled:opacity-70"
-                  disabled={loading}
-                >
-                  {loading ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <Search className="h-4 w-4" />
-                  )}
-                  <span>{loading ? 'Searching…' : 'Search'}</span>
-                </button>
+          {turns.length === 0 ? (
+            <>
+              {/* Hero Section */}
+              <div className="text-center mb-10 space-y-4">
+                <h1 className="text-6xl font-black italic tracking-[-0.05em] sm:text-7xl">
+                  <span className="inline-block bg-gradient-to-r from-sky-400 via-blue-500 to-cyan-600 bg-clip-text text-transparent drop-shadow-md">
+                    PGC+
+                  </span>
+                </h1>
+                <p className="text-lg text-muted-foreground">
+                  Ask questions and get AI-powered answers from your documents
+                </p>
               </div>
-              <div className="flex flex-wrap justify-center gap-2 text-xs text-muted-foreground">
+
+              {searchForm}
+
+              <div className="-mt-2 mb-8 flex flex-wrap justify-center gap-2 text-xs text-muted-foreground">
                 <span>Try:</span>
-                <button
-                  type="button"
-                  onClick={() => setQuery('What are equipment requirements for water quality testing?')}
-                  className="rounded-full border border-border/70 bg-muted/30 px-3 py-1 text-foreground transition hover:bg-muted/60"
-                >
-                  What are equipment requirements for water quality testing?
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setQuery('Fungal peritonitis prophylaxis guidelines')}
-                  className="rounded-full border border-border/70 bg-muted/30 px-3 py-1 text-foreground transition hover:bg-muted/60"
-                >
-                  Fungal peritonitis prophylaxis guidelines
-                </button>
+                {EXAMPLE_QUESTIONS.map((example) => (
+                  <button
+                    key={example}
+                    type="button"
+                    onClick={() => setQuery(example)}
+                    className="rounded-full border border-border/70 bg-muted/30 px-3 py-1 text-foreground transition hover:bg-muted/60"
+                  >
+                    {example}
+                  </button>
+                ))}
               </div>
-            </div>
-          </form>
-
-          {/* Error */}
-          {error && (
-            <Card className="mb-6 border-destructive">
-              <CardContent className="pt-6">
-                <p className="text-destructive">{error}</p>
-              </CardContent>
-            </Card>
-          )}
 
-          {/* Results */}
-          {result && (
-            <div className="space-y-6">
-              {/* Answer */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Answer</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <MarkdownWithCitations
-                    content={result.answer}
-                    citations={result.citations}
-                    chunkToCitationMap={result.chunkToCitationMap}
-                  />
-                </CardContent>
-              </Card>
-
-              {/* Citations */}
-              {result.citations.length > 0 && (
+              {/* Resumable history (signed-in users) */}
+              {conversations.length > 0 && (
                 <Card>
                   <CardHeader>
-                    <CardTitle>Sources</CardTitle>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <MessagesSquare className="h-4 w-4" />
+                      Recent conversations
+                    </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="space-y-3">
-                      {result.citations.map((citation, index) => {
-                        // Truncate snippet to max 150 characters
-                        const truncatedSnippet = citation.snippet && citation.snippet.length > 150
-                          ? citation.snippet.substring(0, 150) + '...'
-                          : citation.snippet;
-
-                        return (
+                    <div className="divide-y">
+                      {conversations.map((conversation) => (
+                        <div key={conversation.id} className="flex items-center gap-2 py-2">
                           <Link
-                            key={index}
-                            href={`/view/${citation.documentId}`}
-                            className="block border-l-4 border-primary pl-4 py-2 hover:bg-muted/50 transition-colors rounded-r"
+                            href={`/?c=${conversation.id}`}
+                            className="flex-1 min-w-0 hover:underline"
                           >
-                            <div className="flex items-start gap-3">
-                              <span className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex-shrink-0 mt-0.5">
-                                {citation.index}
-                              </span>
-                              <div className="flex-1 min-w-0">
-                                <p className="font-medium flex items-center gap-2">
-                                  {citation.title}
-                                  <ExternalLink className="h-3 w-3 text-muted-foreground flex-shrink-0" />
-                                </p>
-                                {truncatedSnippet && (
-                                  <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
-                                    {truncatedSnippet}
-                                  </p>
-                                )}
-                              </div>
-                            </div>
+                            <p className="truncate text-sm font-medium">{conversation.title || 'Untitled'}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {conversation.turnCount} {conversation.turnCount === 1 ? 'question' : 'questions'} · {formatDate(conversation.updatedAt)}
+                            </p>
                           </Link>
-                        );
-                      })}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteConversation(conversation)}
+                            title="Delete conversation"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
                     </div>
                   </CardContent>
                 </Card>
               )}
-            </div>
+            </>
+          ) : (
+            <>
+              <div className="mb-6 flex justify-end">
+                <Button variant="outline" size="sm" onClick={handleNewConversation} disabled={loading}>
+                  <MessageSquarePlus className="mr-2 h-4 w-4" />
+                  New conversation
+                </Button>
+              </div>
+
+              {/* Thread */}
+              <div className="space-y-6 mb-8">
+                {turns.map((turn, index) => (
+                  <div key={index} className="space-y-3">
+                    <div className="flex justify-end">
+                      <p className="max-w-[85%] rounded-2xl bg-primary px-4 py-2 text-sm text-primary-foreground">
+                        {turn.question}
+                      </p>
+                    </div>
+
+                    <Card>
+                      <CardContent className="pt-6">
+                        {turn.answer ? (
+                          <MarkdownWithCitations
+                            content={turn.answer}
+                            citations={turn.citations}
+                            chunkToCitationMap={turn.chunkToCitationMap}
+                          />
+                        ) : (
+                          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Searching documents…
+                          </p>
+                        )}
+                        {turn.pending && turn.answer && (
+                          <p className="mt-4 flex items-center gap-2 text-xs text-muted-foreground">
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                            Writing answer…
+                          </p>
+                        )}
+
+                        {/* Sources */}
+                        {turn.citations.length > 0 && (
+                          <div className="mt-6 border-t pt-4">
+                            <p className="mb-3 text-sm font-semibold">Sources</p>
+                            <CitationList citations={turn.citations} />
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </div>
+                ))}
+              </div>
+
+              {searchForm}
+            </>
+          )}
+
+          {/* Error */}
+          {error && (
+            <Card className="mb-6 border-destructive">
+              <CardContent className="pt-6">
+                <p className="text-destructive">{error}</p>
+              </CardContent>
+            </Card>
           )}
         </div>
       </main>
     </div>
   );
 }
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+      <SearchContent />
+    </Suspense>
+  );
+}
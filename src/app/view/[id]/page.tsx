@@ -3,8 +3,10 @@
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Download, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Download, ExternalLink, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { VersionHistory } from '@/components/documents/version-history';
+import { isReviewOverdue } from '@/lib/documents/review-dates';
 import type { Document } from '@/lib/db/table-storage';
 
 export default function PublicViewerPage() {
@@ -14,6 +16,7 @@ export default function PublicViewerPage() {
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
     const fetchDocument = async () => {
@@ -105,6 +108,14 @@ export default function PublicViewerPage() {
               </p>
             </div>
             <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setShowHistory((prev) => !prev)}
+                variant={showHistory ? 'secondary' : 'outline'}
+                size="sm"
+              >
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Button>
               <Button onClick={handleDownload} variant="outline" size="sm" disabled={!downloadUrl}>
                 <Download className="mr-2 h-4 w-4" />
                 Download
@@ -120,49 +131,75 @@ export default function PublicViewerPage() {
         </div>
       </header>
 
-      {/* Document Viewer */}
-      <main className="flex-1 overflow-hidden bg-muted/30">
-        {!downloadUrl ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="text-center">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-              <p className="text-sm text-muted-foreground">Loading document...</p>
+      {/* Superseded notice */}
+      {document.isCurrent === false && (
+        <div className="border-b bg-yellow-500/10 px-4 py-2 text-center text-sm">
+          This version has been superseded.{' '}
+          {document.supersededBy && (
+            <Link href={`/view/${document.supersededBy}`} className="font-medium underline">
+              View the newer version
+            </Link>
+          )}
+        </div>
+      )}
+
+      {/* Review notice */}
+      {isReviewOverdue(document) && (
+        <div className="border-b bg-destructive/10 px-4 py-2 text-center text-sm">
+          This policy was due for review on {document.reviewDate} and may be out of date.
+        </div>
+      )}
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Document Viewer */}
+        <main className="flex-1 overflow-hidden bg-muted/30">
+          {!downloadUrl ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-sm text-muted-foreground">Loading document...</p>
+              </div>
             </div>
-          </div>
-        ) : isPdf ? (
-          <iframe
-            src={downloadUrl}
-            className="w-full h-full border-0"
-            title={document.title}
-          />
-        ) : isDocx ? (
-          <div className="flex flex-col items-center justify-center h-full p-8 text-center">
-            <div className="max-w-md">
-              <h3 className="text-lg font-semibold mb-2">DOCX Preview Not Available</h3>
-              <p className="text-sm text-muted-foreground mb-6">
-                Word documents cannot be previewed in the browser. Please download the file
-                or open it in a new tab.
-              </p>
-              <div className="flex gap-3 justify-center">
-                <Button onClick={handleDownload}>
-                  <Download className="h-4 w-4 mr-2" />
-                  Download File
-                </Button>
-                <Button variant="outline" onClick={handleDownload}>
-                  <ExternalLink className="h-4 w-4 mr-2" />
-                  Open in New Tab
-                </Button>
+          ) : isPdf ? (
+            <iframe
+              src={downloadUrl}
+              className="w-full h-full border-0"
+              title={document.title}
+            />
+          ) : isDocx ? (
+            <div className="flex flex-col items-center justify-center h-full p-8 text-center">
+              <div className="max-w-md">
+                <h3 className="text-lg font-semibold mb-2">DOCX Preview Not Available</h3>
+                <p className="text-sm text-muted-foreground mb-6">
+                  Word documents cannot be previewed in the browser. Please download the file
+                  or open it in a new tab.
+                </p>
+                <div className="flex gap-3 justify-center">
+                  <Button onClick={handleDownload}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download File
+                  </Button>
+                  <Button variant="outline" onClick={handleDownload}>
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open in New Tab
+                  </Button>
+                </div>
               </div>
             </div>
-          </div>
-        ) : (
-          <div className="flex items-center justify-center h-full">
-            <p className="text-sm text-muted-foreground">
-              Preview not available for this file type
-            </p>
-          </div>
+          ) : (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-sm text-muted-foreground">
+                Preview not available for this file type
+              </p>
+            </div>
+          )}
+        </main>
+        {showHistory && (
+          <aside className="w-72 border-l overflow-y-auto">
+            <VersionHistory documentId={document.id} />
+          </aside>
         )}
-      </main>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Download, History, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatDate } from '@/lib/utils';
+import { AUDIT_ACTIONS } from '@/lib/audit/actions';
+import type { AuditEvent } from '@/lib/db/audit-events';
+
+const ALL_ACTIONS = '__all__';
+
+interface AuditFilters {
+  action: string;
+  actor: string;
+  documentId: string;
+}
+
+function buildQuery(filters: AuditFilters, continuationToken?: string): string {
+  const params = new URLSearchParams();
+  if (filters.action !== ALL_ACTIONS) params.set('action', filters.action);
+  if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+  if (filters.documentId.trim()) params.set('documentId', filters.documentId.trim());
+  if (continuationToken) params.set('continuationToken', continuationToken);
+  return params.toString();
+}
+
+function formatChange(json?: string): string | null {
+  if (!json) return null;
+  try {
+    return Object.entries(JSON.parse(json) as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+      .join(', ');
+  } catch {
+    return json;
+  }
+}
+
+export function AuditLogTable() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [continuationToken, setContinuationToken] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>({
+    action: ALL_ACTIONS,
+    actor: '',
+    documentId: '',
+  });
+
+  const fetchEvents = async (append: boolean = false) => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `/api/admin/audit?${buildQuery(filters, append ? continuationToken : undefined)}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch audit events');
+      }
+
+      setEvents((prev) => (append ? [...prev, ...data.events] : data.events));
+      setContinuationToken(data.continuationToken);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit events');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [filters.action]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchEvents();
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.action}
+          onValueChange={(action) => setFilters((prev) => ({ ...prev, action }))}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="All actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+            {AUDIT_ACTIONS.map((action) => (
+              <SelectItem key={action} value={action}>
+                {action}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Actor (username)"
+          value={filters.actor}
+          onChange={(e) => setFilters((prev) => ({ ...prev, actor: e.target.value }))}
+          className="w-[180px]"
+        />
+        <Input
+          placeholder="Document ID"
+          value={filters.documentId}
+          onChange={(e) => setFilters((prev) => ({ ...prev, documentId: e.target.value }))}
+          className="w-[180px]"
+        />
+        <Button type="submit" variant="outline">
+          <Search className="mr-2 h-4 w-4" />
+          Filter
+        </Button>
+        <Button variant="outline" asChild>
+          <a href={`/api/admin/audit/export?${buildQuery(filters)}`}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </a>
+        </Button>
+      </form>
+
+      {error && (
+        <div className="text-center py-12">
+          <p className="text-sm text-destructive">{error}</p>
+          <Button variant="outline" onClick={() => fetchEvents()} className="mt-4">
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {!error && !loading && events.length === 0 && (
+        <div className="text-center py-12">
+          <History className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No audit events</h3>
+          <p className="text-sm text-muted-foreground">
+            Nothing matches the current filters
+          </p>
+        </div>
+      )}
+
+      {!error && events.length > 0 && (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b bg-muted/50 text-left text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2 font-medium">When</th>
+                  <th className="px-4 py-2 font-medium">Actor</th>
+                  <th className="px-4 py-2 font-medium">Action</th>
+                  <th className="px-4 py-2 font-medium">Document</th>
+                  <th className="px-4 py-2 font-medium">Change / Details</th>
+                  <th className="px-4 py-2 font-medium">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => {
+                  const before = formatChange(event.before);
+                  const after = formatChange(event.after);
+                  const details = formatChange(event.details);
+                  return (
+                    <tr key={event.id} className="border-b last:border-0 align-top">
+                      <td className="px-4 py-2 whitespace-nowrap">{formatDate(event.occurredAt)}</td>
+                      <td className="px-4 py-2">
+                        {event.actor}
+                        {event.actorRole && (
+                          <span className="block text-xs text-muted-foreground">{event.actorRole}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge variant="secondary">{event.action}</Badge>
+                      </td>
+                      <td className="px-4 py-2 font-mono text-xs">{event.documentId || '-'}</td>
+                      <td className="px-4 py-2 text-xs text-muted-foreground max-w-md break-words">
+                        {before && <p>Before: {before}</p>}
+                        {after && <p>After: {after}</p>}
+                        {details && <p>{details}</p>}
+                      </td>
+                      <td className="px-4 py-2 text-xs text-muted-foreground">{event.ip || '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      )}
+
+      {!loading && continuationToken && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => fetchEvents(true)}>
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
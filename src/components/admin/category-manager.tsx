@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FolderPlus, FolderTree, GitMerge, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CategoryOverview, CategorySummary } from '@/lib/documents/categories';
+
+export function CategoryManager() {
+  const [overview, setOverview] = useState<CategoryOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/documents/categories');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch categories');
+      }
+
+      setOverview(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const send = async (url: string, method: string, body: unknown, failure: string): Promise<boolean> => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || failure);
+      }
+
+      fetchCategories();
+      return true;
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      alert(err instanceof Error ? err.message : failure);
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    if (await send('/api/documents/categories', 'POST', { path: newName }, 'Failed to create category')) {
+      setNewName('');
+    }
+  };
+
+  const handleAddSubcategory = (parent: CategorySummary) => {
+    const name = prompt(`New subcategory of "${parent.path}":`);
+    if (!name) return;
+    send('/api/documents/categories', 'POST', { name, parentId: parent.id }, 'Failed to create category');
+  };
+
+  const handleRename = (category: CategorySummary) => {
+    const name = prompt(`Rename "${category.name}" (${category.totalCount} documents will be updated):`, category.name);
+    if (!name || name === category.name) return;
+    send(`/api/documents/categories/${category.id}`, 'PATCH', { name }, 'Failed to rename category');
+  };
+
+  const handleMerge = (category: CategorySummary, targetId: string) => {
+    const target = overview?.categories.find((candidate) => candidate.id === targetId);
+    setMergingId(null);
+    if (!target || !confirm(`Merge "${category.path}" into "${target.path}"? "${category.name}" will be deleted.`)) {
+      return;
+    }
+    send(`/api/documents/categories/${category.id}/merge`, 'POST', { targetId }, 'Failed to merge categories');
+  };
+
+  const handleDelete = (category: CategorySummary) => {
+    if (!confirm(`Delete the category "${category.path}"?`)) return;
+    send(`/api/documents/categories/${category.id}`, 'DELETE', undefined, 'Failed to delete category');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-sm text-muted-foreground">Loading categories...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-sm text-destructive">{error || 'No data'}</p>
+        <Button variant="outline" onClick={() => fetchCategories()} className="mt-4">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New category, e.g. Renal > Peritoneal Dialysis"
+        />
+        <Button type="submit" disabled={!newName.trim()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </form>
+
+      {overview.categories.length === 0 ? (
+        <div className="text-center py-12">
+          <FolderTree className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No categories yet</h3>
+          <p className="text-sm text-muted-foreground">
+            Categories are also created when documents are uploaded
+          </p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-2">
+            <ul className="divide-y">
+              {overview.categories.map((category) => (
+                <li
+                  key={category.id}
+                  className="flex items-center justify-between gap-4 py-2 pr-2"
+                  style={{ paddingLeft: `${0.75 + category.depth * 1.5}rem` }}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="font-medium truncate">{category.name}</span>
+                    <Badge variant="secondary" title="Documents in this category and its subcategories">
+                      {category.totalCount}
+                    </Badge>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center gap-2">
+                    {mergingId === category.id ? (
+                      <Select onValueChange={(value) => handleMerge(category, value)}>
+                        <SelectTrigger className="w-[220px]">
+                          <SelectValue placeholder="Merge into..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {overview.categories
+                            .filter((target) => target.id !== category.id &&
+                              !target.path.startsWith(`${category.path} > `))
+                            .map((target) => (
+                              <SelectItem key={target.id} value={target.id}>
+                                {target.path}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setMergingId(category.id)}
+                        title="Merge into another category"
+                      >
+                        <GitMerge className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleAddSubcategory(category)}
+                      title="Add subcategory"
+                    >
+                      <FolderPlus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleRename(category)}
+                      title="Rename"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleDelete(category)}
+                      title="Delete"
+                      disabled={category.totalCount > 0}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {overview.unmanaged.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Not in the taxonomy</h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            Older documents use these free-text categories. Add them to the taxonomy, then merge any duplicates.
+          </p>
+          <Card>
+            <CardContent className="p-2">
+              <ul className="divide-y">
+                {overview.unmanaged.map((entry) => (
+                  <li key={entry.path} className="flex items-center justify-between gap-4 py-2 px-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="truncate">{entry.path}</span>
+                      <Badge variant="outline">{entry.documentCount}</Badge>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => send('/api/documents/categories', 'POST', { path: entry.path }, 'Failed to add category')}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add to taxonomy
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { RestoreReport } from '@/lib/documents/library-backup';
+
+export function LibraryBackup() {
+  const [file, setFile] = useState<File | null>(null);
+  const [restoreStoreConfig, setRestoreStoreConfig] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    if (!confirm(`Restore documents from "${file.name}"? Documents that already exist are left unchanged.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (restoreStoreConfig) formData.append('restoreStoreConfig', 'true');
+
+      const response = await fetch('/api/admin/library/restore', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Restore failed');
+      }
+
+      setReport(data);
+      setFile(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Export</CardTitle>
+          <CardDescription>
+            Download every stored file, all document records and the search store
+            configuration as a single ZIP archive.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild>
+            <a href="/api/admin/library/export">
+              <Download className="mr-2 h-4 w-4" />
+              Export library
+            </a>
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Restore</CardTitle>
+          <CardDescription>
+            Recreate documents from an export. Files are uploaded again and published
+            documents are reindexed; documents that already exist are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleRestore} className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="restore-file">Export archive</Label>
+              <input
+                id="restore-file"
+                type="file"
+                accept=".zip"
+                className="text-sm"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={restoreStoreConfig}
+                onChange={(e) => setRestoreStoreConfig(e.target.checked)}
+              />
+              <span>
+                Reuse the archived search store (only when restoring into the same Gemini
+                project and this environment has no store yet)
+              </span>
+            </label>
+
+            {error && (
+              <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {report && (
+              <div className="text-sm bg-muted p-3 rounded-md space-y-1">
+                <p>{report.documents.restored} documents restored, {report.documents.skipped.length} already existed</p>
+                <p>{report.blobs.restored} files uploaded{report.blobs.missing.length > 0 && `, ${report.blobs.missing.length} missing from the archive`}</p>
+                <p>{report.queuedForIndexing} documents queued for indexing</p>
+                {report.storeConfigRestored && <p>Search store configuration restored</p>}
+              </div>
+            )}
+
+            <Button type="submit" disabled={!file || restoring}>
+              <Upload className="mr-2 h-4 w-4" />
+              {restoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { formatDate } from '@/lib/utils';
+import type { Document } from '@/lib/db/table-storage';
+
+type TrashedDocument = Document & { purgeAt: string };
+
+export function TrashList() {
+  const [documents, setDocuments] = useState<TrashedDocument[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch('/api/documents/trash');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch recycle bin');
+      }
+
+      setDocuments(data.documents);
+      setRetentionDays(data.retentionDays);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recycle bin');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const runAction = async (url: string, method: 'POST' | 'DELETE', failure: string) => {
+    try {
+      const response = await fetch(url, { method });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || failure);
+      }
+      if (data.errors?.length) {
+        alert(`${data.errors.length} document(s) could not be deleted`);
+      }
+
+      fetchTrash();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      alert(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleRestore = (document: TrashedDocument) => {
+    runAction(`/api/documents/${document.id}/restore`, 'POST', 'Failed to restore document');
+  };
+
+  const handlePurge = (document: TrashedDocument) => {
+    if (!confirm(`Permanently delete "${document.title}"? This cannot be undone.`)) {
+      return;
+    }
+    runAction(`/api/documents/trash/${document.id}`, 'DELETE', 'Failed to delete document');
+  };
+
+  const handleEmpty = () => {
+    if (!confirm(`Permanently delete all ${documents.length} documents in the recycle bin? This cannot be undone.`)) {
+      return;
+    }
+    runAction('/api/documents/trash', 'DELETE', 'Failed to empty recycle bin');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-sm text-muted-foreground">Loading recycle bin...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-sm text-destructive">{error}</p>
+        <Button variant="outline" onClick={() => fetchTrash()} className="mt-4">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  if (documents.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Trash2 className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        <h3 className="text-lg font-semibold mb-2">The recycle bin is empty</h3>
+        <p className="text-sm text-muted-foreground">
+          Deleted documents are kept here for {retentionDays} days before they are removed permanently
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Documents are removed permanently {retentionDays} days after deletion
+        </p>
+        <Button variant="destructive" size="sm" onClick={handleEmpty}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Empty bin
+        </Button>
+      </div>
+
+      <div className="grid gap-4">
+        {documents.map((document) => (
+          <Card key={document.id}>
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <h3 className="font-semibold text-lg truncate">{document.title}</h3>
+                    <Badge variant="outline">v{document.version}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">{document.category}</p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Deleted {formatDate(document.deletedAt!)}
+                    {document.deletedBy && ` by ${document.deletedBy}`}
+                    {' • '}Removed permanently {formatDate(document.purgeAt)}
+                  </p>
+                </div>
+
+                {/* Actions */}
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(document)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handlePurge(document)}
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
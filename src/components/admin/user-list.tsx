@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { KeyRound, UserX, UserCheck, Users } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatDate } from '@/lib/utils';
+import { ROLES, type Role } from '@/lib/auth/roles';
+import type { PublicUserAccount } from '@/lib/db/users';
+
+interface UserListProps {
+  refreshTrigger?: number;
+}
+
+export function UserList({ refreshTrigger }: UserListProps) {
+  const [users, setUsers] = useState<PublicUserAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch users');
+      }
+
+      setUsers(data.users);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, [refreshTrigger]);
+
+  const updateUser = async (user: PublicUserAccount, updates: { role?: Role; disabled?: boolean }) => {
+    try {
+      const response = await fetch(`/api/admin/users/${encodeURIComponent(user.username)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update user');
+      }
+
+      fetchUsers();
+    } catch (err) {
+      console.error('Update user error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update user');
+    }
+  };
+
+  const handleToggleDisabled = (user: PublicUserAccount) => {
+    const action = user.disabled ? 'enable' : 'disable';
+    if (!confirm(`Are you sure you want to ${action} "${user.username}"?`)) {
+      return;
+    }
+    updateUser(user, { disabled: !user.disabled });
+  };
+
+  const handleResetPassword = async (user: PublicUserAccount) => {
+    const password = prompt(`New password for "${user.username}" (at least 8 characters):`);
+    if (!password) return;
+
+    try {
+      const response = await fetch(
+        `/api/admin/users/${encodeURIComponent(user.username)}/reset-password`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset password');
+      }
+
+      alert(`Password reset for "${user.username}"`);
+    } catch (err) {
+      console.error('Reset password error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to reset password');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-sm text-muted-foreground">Loading users...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-sm text-destructive">{error}</p>
+        <Button variant="outline" onClick={() => fetchUsers()} className="mt-4">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  if (users.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Users className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No user accounts yet</h3>
+        <p className="text-sm text-muted-foreground">
+          You are signed in with the bootstrap admin. Create an admin account to replace it.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {users.map((user) => (
+        <Card key={user.username}>
+          <CardContent className="p-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-3 flex-wrap">
+                  <h3 className="font-semibold text-lg truncate">{user.displayName}</h3>
+                  {user.disabled && <Badge variant="destructive">Disabled</Badge>}
+                </div>
+                <div className="flex items-center gap-3 mt-1 flex-wrap">
+                  <span className="text-sm text-muted-foreground">{user.username}</span>
+                  {user.email && (
+                    <span className="text-sm text-muted-foreground">{user.email}</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {user.lastLoginAt ? `Last signed in ${formatDate(user.lastLoginAt)}` : 'Never signed in'}
+                </p>
+              </div>
+
+              {/* Actions */}
+              <div className="flex items-center gap-2">
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => updateUser(user, { role: value as Role })}
+                >
+                  <SelectTrigger className="w-[110px] capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role} className="capitalize">
+                        {role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => handleResetPassword(user)}
+                  title="Reset password"
+                >
+                  <KeyRound className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => handleToggleDisabled(user)}
+                  title={user.disabled ? 'Enable user' : 'Disable user'}
+                >
+                  {user.disabled ? (
+                    <UserCheck className="h-4 w-4" />
+                  ) : (
+                    <UserX className="h-4 w-4 text-destructive" />
+                  )}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -1,29 +1,101 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { FileText, Download, Trash2, Eye, Search, Database, HardDrive } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import { FileText, Download, Trash2, Eye, Search, Database, HardDrive, RefreshCw, Pencil, FileUp, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, MessageSquare } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { formatDate } from '@/lib/utils';
 import type { Document } from '@/lib/db/table-storage';
+import {
+  getAvailableTransitions,
+  getPublicationState,
+  PUBLICATION_STATE_LABELS,
+  type PublicationState,
+  type WorkflowTransitionRule,
+} from '@/lib/documents/publication-states';
+import { getDaysUntilReview, getReviewStatus } from '@/lib/documents/review-dates';
+import { getDocumentTags } from '@/lib/documents/tags';
+import { getReplacedFiles } from '@/lib/documents/file-history';
+import { hasRole } from '@/lib/auth/roles';
+import type { DocumentSort, DocumentSortField } from '@/lib/documents/document-query';
+import { EditDocumentDialog } from './edit-document-dialog';
+
+const PAGE_SIZE = 25;
+const ALL = '__all__';
+
+const SORT_OPTIONS: Array<{ field: DocumentSortField; label: string }> = [
+  { field: 'createdAt', label: 'Uploaded' },
+  { field: 'title', label: 'Title' },
+  { field: 'category', label: 'Category' },
+  { field: 'status', label: 'Status' },
+  { field: 'reviewDate', label: 'Review date' },
+];
+
+const STATUS_OPTIONS: Array<{ value: Document['status']; label: string }> = [
+  { value: 'ready', label: 'Ready' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'unindexed', label: 'Not indexed' },
+];
 
 interface DocumentListProps {
   onViewDocument?: (document: Document) => void;
   refreshTrigger?: number;
+  /** Category paths offered when editing a document */
+  categories?: string[];
 }
 
-export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListProps) {
+export function DocumentList({ onViewDocument, refreshTrigger, categories = [] }: DocumentListProps) {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-
-  const fetchDocuments = async () => {
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [sort, setSort] = useState<DocumentSort>({ field: 'createdAt', direction: 'desc' });
+  // Continuation token of every page visited so far; the first page has none
+  const [pageTokens, setPageTokens] = useState<Array<string | undefined>>([undefined]);
+  const [nextToken, setNextToken] = useState<string | undefined>();
+  const [total, setTotal] = useState<number | undefined>();
+  const [reindexingAll, setReindexingAll] = useState(false);
+  const [editingDocument, setEditingDocument] = useState<Document | null>(null);
+  const [replacingDocument, setReplacingDocument] = useState<Document | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const { data: session } = useSession();
+  const role = session?.user?.role;
+
+  const pageIndex = pageTokens.length - 1;
+  const hasFilters = !!debouncedQuery || categoryFilter !== ALL || statusFilter !== ALL;
+
+  const queryString = useMemo(() => {
+    const params = new URLSearchParams({
+      pageSize: String(PAGE_SIZE),
+      sort: `${sort.direction === 'desc' ? '-' : ''}${sort.field}`,
+    });
+    if (debouncedQuery) params.set('q', debouncedQuery);
+    if (categoryFilter !== ALL) params.set('category', categoryFilter);
+    if (statusFilter !== ALL) params.set('status', statusFilter);
+    if (pageTokens[pageIndex]) params.set('continuationToken', pageTokens[pageIndex]!);
+    return params.toString();
+  }, [debouncedQuery, categoryFilter, statusFilter, sort, pageTokens, pageIndex]);
+
+  // refresh: re-reading the same view (polling, or after an audited action) is not audited again
+  const fetchDocuments = async (silent: boolean = false, refresh: boolean = false) => {
     try {
-      setLoading(true);
-      const response = await fetch('/api/documents');
+      if (!silent) setLoading(true);
+      const response = await fetch(`/api/documents?${queryString}${refresh ? '&refresh=true' : ''}`);
       const data = await response.json();
 
       if (!response.ok) {
@@ -31,6 +103,8 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
       }
 
       setDocuments(data.documents);
+      setNextToken(data.continuationToken);
+      setTotal(data.total);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load documents');
@@ -39,9 +113,43 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
     }
   };
 
+  // Only the first load shows the full-page spinner so the filters keep focus
+  const hasLoaded = useRef(false);
+  useEffect(() => {
+    fetchDocuments(hasLoaded.current);
+    hasLoaded.current = true;
+  }, [refreshTrigger, queryString]);
+
+  // Search as the user types, once they pause
   useEffect(() => {
-    fetchDocuments();
-  }, [refreshTrigger]);
+    const timeout = setTimeout(() => {
+      if (searchQuery.trim() === debouncedQuery) return;
+      setDebouncedQuery(searchQuery.trim());
+      setPageTokens([undefined]);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Poll while documents are still being indexed in the background
+  const hasProcessing = documents.some((doc) => doc.status === 'processing');
+  useEffect(() => {
+    if (!hasProcessing) return;
+    const interval = setInterval(() => fetchDocuments(true, true), 10000);
+    return () => clearInterval(interval);
+  }, [hasProcessing, queryString]);
+
+  const resetPaging = () => setPageTokens([undefined]);
+
+  const handleSort = (field: DocumentSortField) => {
+    setSort((current) => ({
+      field,
+      // Toggle on the active column; dates start newest first, text A-Z
+      direction: current.field === field
+        ? (current.direction === 'asc' ? 'desc' : 'asc')
+        : (field === 'createdAt' ? 'desc' : 'asc'),
+    }));
+    resetPaging();
+  };
 
   const handleDownload = async (document: Document) => {
     try {
@@ -61,7 +169,7 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
   };
 
   const handleDelete = async (document: Document) => {
-    if (!confirm(`Are you sure you want to delete "${document.title}"?`)) {
+    if (!confirm(`Move "${document.title}" to the recycle bin? An admin can restore it from there.`)) {
       return;
     }
 
@@ -76,13 +184,123 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
       }
 
       // Refresh list
-      fetchDocuments();
+      fetchDocuments(false, true);
     } catch (err) {
       console.error('Delete error:', err);
       alert(err instanceof Error ? err.message : 'Failed to delete document');
     }
   };
 
+  const handleReplaceClick = (document: Document) => {
+    setReplacingDocument(document);
+    replaceInputRef.current?.click();
+  };
+
+  const handleReplaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const document = replacingDocument;
+    setReplacingDocument(null);
+    if (!file || !document) return;
+
+    if (!confirm(`Replace the file of "${document.title}" with ${file.name}? Links to this document stay the same and the current file is kept as a prior revision.`)) {
+      return;
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`/api/documents/${document.id}/file`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to replace file');
+      }
+
+      fetchDocuments(true, true);
+    } catch (err) {
+      console.error('Replace file error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to replace file');
+    }
+  };
+
+  const handleRetry = async (document: Document) => {
+    try {
+      const response = await fetch(`/api/documents/${document.id}/reindex`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to retry indexing');
+      }
+
+      fetchDocuments(true, true);
+    } catch (err) {
+      console.error('Retry error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to retry indexing');
+    }
+  };
+
+  const handleTransition = async (document: Document, rule: WorkflowTransitionRule) => {
+    let comment: string | undefined;
+    if (rule.commentRequired) {
+      const input = prompt(`${rule.label} "${document.title}" - comment:`);
+      if (!input?.trim()) return;
+      comment = input.trim();
+    } else if (!confirm(`${rule.label} "${document.title}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}/workflow`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: rule.action, comment }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Workflow action failed');
+      }
+
+      fetchDocuments(true, true);
+    } catch (err) {
+      console.error('Workflow error:', err);
+      alert(err instanceof Error ? err.message : 'Workflow action failed');
+    }
+  };
+
+  const handleReindexAll = async () => {
+    if (!confirm('Reindex every document? Search results may be incomplete until indexing finishes.')) {
+      return;
+    }
+
+    try {
+      setReindexingAll(true);
+      const response = await fetch('/api/documents/reindex', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reindex documents');
+      }
+
+      if (data.errors?.length > 0) {
+        alert(`${data.message}. ${data.errors.length} document(s) could not be queued.`);
+      }
+
+      fetchDocuments(true, true);
+    } catch (err) {
+      console.error('Reindex all error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to reindex documents');
+    } finally {
+      setReindexingAll(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'ready':
@@ -91,11 +309,37 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
         return <Badge variant="warning">Processing</Badge>;
       case 'failed':
         return <Badge variant="destructive">Failed</Badge>;
+      case 'unindexed':
+        return <Badge variant="secondary">Not indexed</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
   };
 
+  const getPublicationBadge = (state: PublicationState) => {
+    switch (state) {
+      case 'published':
+        return <Badge variant="success">{PUBLICATION_STATE_LABELS[state]}</Badge>;
+      case 'in_review':
+      case 'approved':
+        return <Badge variant="warning">{PUBLICATION_STATE_LABELS[state]}</Badge>;
+      default:
+        return <Badge variant="outline">{PUBLICATION_STATE_LABELS[state]}</Badge>;
+    }
+  };
+
+  const getReviewBadge = (document: Document) => {
+    const reviewStatus = getReviewStatus(document);
+    if (reviewStatus === 'overdue') {
+      return <Badge variant="destructive">Review overdue</Badge>;
+    }
+    if (reviewStatus === 'due_30') {
+      const days = getDaysUntilReview(document.reviewDate!);
+      return <Badge variant="warning">Review due in {days} day{days === 1 ? '' : 's'}</Badge>;
+    }
+    return null;
+  };
+
   // Helper function to parse fileSize string back to bytes
   const parseFileSize = (sizeStr: string | undefined): number => {
     if (!sizeStr) return 0;
@@ -116,9 +360,9 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
     return value * (multipliers[unit] || 0);
   };
 
-  // Calculate total statistics
+  // Calculate statistics - the count covers every page when the server knows it
   const statistics = useMemo(() => {
-    const totalCount = documents.length;
+    const totalCount = total ?? `${pageIndex * PAGE_SIZE + documents.length}${nextToken ? '+' : ''}`;
     const totalBytes = documents.reduce((sum, doc) => sum + parseFileSize(doc.fileSize), 0);
 
     // Format total size
@@ -134,19 +378,7 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
       totalCount,
       totalSize: formatTotalSize(totalBytes),
     };
-  }, [documents]);
-
-  // Filter documents based on search query
-  const filteredDocuments = useMemo(() => {
-    if (!searchQuery.trim()) return documents;
-
-    const query = searchQuery.toLowerCase();
-    return documents.filter(doc =>
-      doc.title.toLowerCase().includes(query) ||
-      doc.category.toLowerCase().includes(query) ||
-      doc.version.toLowerCase().includes(query)
-    );
-  }, [documents, searchQuery]);
+  }, [documents, total, nextToken, pageIndex]);
 
   if (loading) {
     return (
@@ -163,14 +395,14 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
     return (
       <div className="text-center py-12">
         <p className="text-sm text-destructive">{error}</p>
-        <Button variant="outline" onClick={fetchDocuments} className="mt-4">
+        <Button variant="outline" onClick={() => fetchDocuments()} className="mt-4">
           Retry
         </Button>
       </div>
     );
   }
 
-  if (documents.length === 0) {
+  if (documents.length === 0 && !hasFilters && pageIndex === 0) {
     return (
       <div className="text-center py-12">
         <FileText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -193,7 +425,7 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
                 <Database className="h-5 w-5 text-primary" />
               </div>
               <div>
-                <p className="text-sm text-muted-foreground">Total Documents</p>
+                <p className="text-sm text-muted-foreground">{hasFilters ? 'Matching Documents' : 'Total Documents'}</p>
                 <p className="text-2xl font-bold">{statistics.totalCount}</p>
               </div>
             </div>
@@ -203,7 +435,7 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
                 <HardDrive className="h-5 w-5 text-primary" />
               </div>
               <div>
-                <p className="text-sm text-muted-foreground">Total Size</p>
+                <p className="text-sm text-muted-foreground">Size (this page)</p>
                 <p className="text-2xl font-bold">{statistics.totalSize}</p>
               </div>
             </div>
@@ -212,36 +444,110 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
       </Card>
 
       {/* Search Box */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          type="text"
-          placeholder="Search documents by title, category, or version..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-10"
-        />
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder="Search documents by title, category, version, or tag..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleReindexAll}
+          disabled={reindexingAll}
+          title="Reindex all documents"
+        >
+          <RefreshCw className={`mr-2 h-4 w-4 ${reindexingAll ? 'animate-spin' : ''}`} />
+          Reindex All
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <Select
+          value={categoryFilter}
+          onValueChange={(value) => {
+            setCategoryFilter(value);
+            resetPaging();
+          }}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category} value={category}>
+                {category}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value);
+            resetPaging();
+          }}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All statuses</SelectItem>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Sortable columns */}
+        <div className="flex items-center gap-1 ml-auto flex-wrap">
+          <span className="text-sm text-muted-foreground mr-1">Sort by</span>
+          {SORT_OPTIONS.map((option) => {
+            const active = sort.field === option.field;
+            return (
+              <Button
+                key={option.field}
+                variant={active ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => handleSort(option.field)}
+              >
+                {option.label}
+                {active && (sort.direction === 'asc'
+                  ? <ArrowUp className="ml-1 h-3 w-3" />
+                  : <ArrowDown className="ml-1 h-3 w-3" />)}
+              </Button>
+            );
+          })}
+        </div>
       </div>
 
       {/* Results count */}
-      {searchQuery && (
+      {hasFilters && total !== undefined && (
         <p className="text-sm text-muted-foreground">
-          Found {filteredDocuments.length} document{filteredDocuments.length !== 1 ? 's' : ''}
+          Found {total} document{total !== 1 ? 's' : ''}
         </p>
       )}
 
       {/* Document List */}
-      {filteredDocuments.length === 0 ? (
+      {documents.length === 0 ? (
         <div className="text-center py-12">
           <Search className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
           <h3 className="text-lg font-semibold mb-2">No documents found</h3>
           <p className="text-sm text-muted-foreground">
-            Try adjusting your search query
+            Try adjusting your search or filters
           </p>
         </div>
       ) : (
         <div className="grid gap-4">
-          {filteredDocuments.map((document) => (
+          {documents.map((document) => (
         <Card key={document.id} className="hover:shadow-md transition-shadow">
           <CardContent className="p-6">
             <div className="flex items-start gap-4">
@@ -260,14 +566,45 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
                     <div className="flex items-center gap-3 mt-1 flex-wrap">
                       <span className="text-sm text-muted-foreground">{document.category}</span>
                       <span className="text-sm text-muted-foreground">v{document.version}</span>
+                      {!!document.revision && document.revision > 1 && (
+                        <span className="text-sm text-muted-foreground">Revision {document.revision}</span>
+                      )}
+                      {document.isCurrent === false && <Badge variant="secondary">Superseded</Badge>}
                       {document.fileSize && (
                         <span className="text-sm text-muted-foreground">{document.fileSize}</span>
                       )}
+                      {getPublicationBadge(getPublicationState(document))}
                       {getStatusBadge(document.status)}
+                      {getReviewBadge(document)}
                     </div>
+                    {getDocumentTags(document).length > 0 && (
+                      <div className="flex items-center gap-1 mt-2 flex-wrap">
+                        {getDocumentTags(document).map((tag) => (
+                          <Badge key={tag} variant="outline" className="font-normal">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     <p className="text-xs text-muted-foreground mt-2">
                       Uploaded {formatDate(document.createdAt)}
+                      {document.owner && ` • Owner: ${document.owner}`}
+                      {document.reviewDate && ` • Review by ${document.reviewDate}`}
+                      {getReplacedFiles(document).length > 0 &&
+                        ` • File replaced ${formatDate(getReplacedFiles(document).slice(-1)[0].replacedAt)}`}
                     </p>
+                    {document.status === 'processing' && !!document.indexingAttempts && document.indexingAttempts > 1 && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Indexing attempt {document.indexingAttempts}
+                        {document.indexingLastError && ` - last error: ${document.indexingLastError}`}
+                      </p>
+                    )}
+                    {document.approvedBy && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Approved by {document.approvedBy}
+                        {document.approvalComment && `: "${document.approvalComment}"`}
+                      </p>
+                    )}
                     {document.status === 'failed' && document.errorMessage && (
                       <p className="text-xs text-destructive mt-2">
                         Error: {document.errorMessage}
@@ -276,7 +613,30 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
                   </div>
 
                   {/* Actions */}
-                  <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2 flex-wrap justify-end">
+                    {getAvailableTransitions(getPublicationState(document), role).map((rule) => (
+                      <Button
+                        key={rule.action}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleTransition(document, rule)}
+                      >
+                        {rule.label}
+                      </Button>
+                    ))}
+                    {document.status === 'failed' &&
+                      document.isCurrent !== false &&
+                      getPublicationState(document) === 'published' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRetry(document)}
+                        title="Retry indexing"
+                      >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Retry
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="icon"
@@ -285,6 +645,34 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
                     >
                       <Eye className="h-4 w-4" />
                     </Button>
+                    {document.status === 'ready' && document.isCurrent !== false && !document.deletedAt && (
+                      <Button variant="outline" size="icon" asChild title="Ask about this document">
+                        <Link href={`/?document=${encodeURIComponent(document.id)}`}>
+                          <MessageSquare className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    )}
+                    {hasRole(role, 'editor') && !document.deletedAt && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setEditingDocument(document)}
+                          title="Edit details"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleReplaceClick(document)}
+                          disabled={document.status === 'processing'}
+                          title="Replace file"
+                        >
+                          <FileUp className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
                     <Button
                       variant="outline"
                       size="icon"
@@ -310,6 +698,49 @@ export function DocumentList({ onViewDocument, refreshTrigger }: DocumentListPro
       ))}
         </div>
       )}
+
+      {/* Paging */}
+      {(pageIndex > 0 || nextToken) && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPageTokens((tokens) => tokens.slice(0, -1))}
+            disabled={pageIndex === 0}
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {pageIndex + 1}
+            {total !== undefined && ` of ${Math.max(1, Math.ceil(total / PAGE_SIZE))}`}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPageTokens((tokens) => [...tokens, nextToken])}
+            disabled={!nextToken}
+          >
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <input
+        ref={replaceInputRef}
+        type="file"
+        className="hidden"
+        accept=".pdf,.docx,.doc"
+        onChange={handleReplaceFile}
+      />
+
+      <EditDocumentDialog
+        document={editingDocument}
+        categories={categories}
+        onOpenChange={(open) => !open && setEditingDocument(null)}
+        onSaved={() => fetchDocuments(true, true)}
+      />
     </div>
   );
 }
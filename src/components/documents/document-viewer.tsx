@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Download, ExternalLink } from 'lucide-react';
+import { Download, ExternalLink, History } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -9,6 +9,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { VersionHistory } from '@/components/documents/version-history';
 import type { Document } from '@/lib/db/table-storage';
 
 interface DocumentViewerProps {
@@ -17,11 +19,20 @@ interface DocumentViewerProps {
   onClose: () => void;
 }
 
-export function DocumentViewer({ document, open, onClose }: DocumentViewerProps) {
+export function DocumentViewer({ document: selectedDocument, open, onClose }: DocumentViewerProps) {
+  // Picking a revision from the history swaps the document shown in the viewer
+  const [revision, setRevision] = useState<Document | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const document = revision || selectedDocument;
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    setRevision(null);
+    setShowHistory(false);
+  }, [open, selectedDocument]);
+
   useEffect(() => {
     if (open && document) {
       fetchDownloadUrl();
@@ -80,9 +91,20 @@ export function DocumentViewer({ document, open, onClose }: DocumentViewerProps)
               <DialogTitle className="truncate">{document.title}</DialogTitle>
               <p className="text-sm text-muted-foreground mt-1">
                 {document.category} • v{document.version}
+                {document.isCurrent === false && (
+                  <Badge variant="secondary" className="ml-2">Superseded</Badge>
+                )}
               </p>
             </div>
             <div className="flex items-center gap-2">
+              <Button
+                variant={showHistory ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setShowHistory((prev) => !prev)}
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -107,63 +129,73 @@ export function DocumentViewer({ document, open, onClose }: DocumentViewerProps)
           </div>
         </DialogHeader>
 
-        <div className="flex-1 overflow-hidden bg-muted/30">
-          {loading && (
-            <div className="flex items-center justify-center h-full">
-              <div className="text-center">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-                <p className="text-sm text-muted-foreground">Loading document...</p>
+        <div className="flex-1 flex overflow-hidden">
+          <div className="flex-1 overflow-hidden bg-muted/30">
+            {loading && (
+              <div className="flex items-center justify-center h-full">
+                <div className="text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+                  <p className="text-sm text-muted-foreground">Loading document...</p>
+                </div>
               </div>
-            </div>
-          )}
-
-          {error && (
-            <div className="flex items-center justify-center h-full">
-              <div className="text-center">
-                <p className="text-sm text-destructive mb-4">{error}</p>
-                <Button variant="outline" onClick={fetchDownloadUrl}>
-                  Retry
-                </Button>
+            )}
+
+            {error && (
+              <div className="flex items-center justify-center h-full">
+                <div className="text-center">
+                  <p className="text-sm text-destructive mb-4">{error}</p>
+                  <Button variant="outline" onClick={fetchDownloadUrl}>
+                    Retry
+                  </Button>
+                </div>
               </div>
-            </div>
-          )}
-
-          {!loading && !error && downloadUrl && (
-            <>
-              {isPdf ? (
-                <iframe
-                  src={downloadUrl}
-                  className="w-full h-full border-0"
-                  title={document.title}
-                />
-              ) : isDocx ? (
-                <div className="flex flex-col items-center justify-center h-full p-8 text-center">
-                  <div className="max-w-md">
-                    <h3 className="text-lg font-semibold mb-2">DOCX Preview Not Available</h3>
-                    <p className="text-sm text-muted-foreground mb-6">
-                      Word documents cannot be previewed in the browser. Please download the file
-                      or open it in a new tab.
-                    </p>
-                    <div className="flex gap-3 justify-center">
-                      <Button onClick={handleDownload}>
-                        <Download className="h-4 w-4 mr-2" />
-                        Download File
-                      </Button>
-                      <Button variant="outline" onClick={handleOpenExternal}>
-                        <ExternalLink className="h-4 w-4 mr-2" />
-                        Open in New Tab
-                      </Button>
+            )}
+
+            {!loading && !error && downloadUrl && (
+              <>
+                {isPdf ? (
+                  <iframe
+                    src={downloadUrl}
+                    className="w-full h-full border-0"
+                    title={document.title}
+                  />
+                ) : isDocx ? (
+                  <div className="flex flex-col items-center justify-center h-full p-8 text-center">
+                    <div className="max-w-md">
+                      <h3 className="text-lg font-semibold mb-2">DOCX Preview Not Available</h3>
+                      <p className="text-sm text-muted-foreground mb-6">
+                        Word documents cannot be previewed in the browser. Please download the file
+                        or open it in a new tab.
+                      </p>
+                      <div className="flex gap-3 justify-center">
+                        <Button onClick={handleDownload}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Download File
+                        </Button>
+                        <Button variant="outline" onClick={handleOpenExternal}>
+                          <ExternalLink className="h-4 w-4 mr-2" />
+                          Open in New Tab
+                        </Button>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ) : (
-                <div className="flex items-center justify-center h-full">
-                  <p className="text-sm text-muted-foreground">
-                    Preview not available for this file type
-                  </p>
-                </div>
-              )}
-            </>
+                ) : (
+                  <div className="flex items-center justify-center h-full">
+                    <p className="text-sm text-muted-foreground">
+                      Preview not available for this file type
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          {showHistory && (
+            <aside className="w-72 border-l overflow-y-auto">
+              <VersionHistory
+                documentId={document.id}
+                onSelect={(picked) => setRevision(picked.id === selectedDocument?.id ? null : picked)}
+              />
+            </aside>
           )}
         </div>
       </DialogContent>
@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Document } from '@/lib/db/table-storage';
+import { getDocumentTags } from '@/lib/documents/tags';
+
+const NEW_CATEGORY = '__new__';
+
+interface EditDocumentDialogProps {
+  /** Document being edited; the dialog is open while this is set */
+  document: Document | null;
+  categories?: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (document: Document) => void;
+}
+
+export function EditDocumentDialog({
+  document,
+  categories = [],
+  onOpenChange,
+  onSaved,
+}: EditDocumentDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [title, setTitle] = useState('');
+  const [category, setCategory] = useState('');
+  const [newCategory, setNewCategory] = useState('');
+  const [version, setVersion] = useState('');
+  const [tags, setTags] = useState('');
+  const [owner, setOwner] = useState('');
+
+  useEffect(() => {
+    if (!document) return;
+    const known = categories.includes(document.category);
+    setTitle(document.title);
+    setCategory(known ? document.category : NEW_CATEGORY);
+    setNewCategory(known ? '' : document.category);
+    setVersion(document.version);
+    setTags(getDocumentTags(document).join(', '));
+    setOwner(document.owner || '');
+    setError(null);
+  }, [document, categories]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!document) return;
+    setError(null);
+
+    const categoryValue = category === NEW_CATEGORY ? newCategory : category;
+    if (!title.trim() || !categoryValue.trim() || !version.trim()) {
+      setError('Please fill in all required fields');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}/metadata`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          category: categoryValue,
+          version,
+          tags: tags.split(','),
+          owner,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update document');
+      }
+
+      onOpenChange(false);
+      onSaved?.(data.document);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Edit Document Details</DialogTitle>
+          <DialogDescription>
+            Changes are saved to the document, its stored file and the search index.
+            Published documents are reindexed.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            {/* Title */}
+            <div className="grid gap-2">
+              <Label htmlFor="edit-title">Title *</Label>
+              <Textarea
+                id="edit-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                required
+                className="min-h-[72px]"
+              />
+            </div>
+
+            {/* Category */}
+            <div className="grid gap-2">
+              <Label htmlFor="edit-category">Category *</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="edit-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat} value={cat}>
+                      {cat}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NEW_CATEGORY}>+ New Category</SelectItem>
+                </SelectContent>
+              </Select>
+              {category === NEW_CATEGORY && (
+                <Input
+                  value={newCategory}
+                  onChange={(e) => setNewCategory(e.target.value)}
+                  placeholder="e.g., Renal > Peritoneal Dialysis"
+                  required
+                />
+              )}
+            </div>
+
+            {/* Version */}
+            <div className="grid gap-2">
+              <Label htmlFor="edit-version">Version *</Label>
+              <Input
+                id="edit-version"
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                required
+              />
+            </div>
+
+            {/* Tags */}
+            <div className="grid gap-2">
+              <Label htmlFor="edit-tags">Tags</Label>
+              <Input
+                id="edit-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="Comma separated, e.g., infection control, adults"
+              />
+            </div>
+
+            {/* Owner */}
+            <div className="grid gap-2">
+              <Label htmlFor="edit-owner">Owner</Label>
+              <Input
+                id="edit-owner"
+                value={owner}
+                onChange={(e) => setOwner(e.target.value)}
+                placeholder="Person or team responsible for reviews"
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileArchive, Download, Upload, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { formatFileSize } from '@/lib/utils';
+import type { DocumentImport, ImportRowResult, ImportRowStatus } from '@/lib/db/document-imports';
+
+const STATUS_BADGES: Record<ImportRowStatus, { label: string; variant: 'success' | 'destructive' | 'secondary' | 'outline' }> = {
+  pending: { label: 'Pending', variant: 'outline' },
+  importing: { label: 'Importing', variant: 'outline' },
+  created: { label: 'Created', variant: 'success' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  skipped: { label: 'Skipped', variant: 'secondary' },
+};
+
+interface ImportDocumentsDialogProps {
+  onImportComplete?: () => void;
+}
+
+export function ImportDocumentsDialog({ onImportComplete }: ImportDocumentsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [allowDuplicates, setAllowDuplicates] = useState(false);
+  const [result, setResult] = useState<{ import: DocumentImport; rows: ImportRowResult[] } | null>(null);
+
+  // Rows are imported in the background - poll until the import finishes
+  const processingId = result?.import.state === 'processing' ? result.import.id : null;
+  useEffect(() => {
+    if (!processingId) return;
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/documents/import/${processingId}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        setResult({ import: data.import, rows: data.rows });
+        if (data.import.state !== 'processing') onImportComplete?.();
+      } catch (err) {
+        console.error('Error fetching import progress:', err);
+      }
+    }, 3000);
+    return () => clearInterval(interval);
+  }, [processingId]);
+
+  const reset = () => {
+    setFile(null);
+    setAllowDuplicates(false);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) reset();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+    if (!selectedFile.name.toLowerCase().endsWith('.zip')) {
+      setError('Only ZIP archives can be imported');
+      return;
+    }
+    setFile(selectedFile);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (allowDuplicates) formData.append('allowDuplicates', 'true');
+
+      const response = await fetch('/api/documents/import', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      // Rejected imports still come back with their row report
+      if (data.import) {
+        setResult({ import: data.import, rows: data.rows });
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+
+      setFile(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileArchive className="mr-2 h-4 w-4" />
+          Import ZIP
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Bulk Import</DialogTitle>
+          <DialogDescription>
+            Upload a ZIP archive of PDF or DOCX files with a manifest.csv listing filename, title,
+            category, version and review date (YYYY-MM-DD) for each file. Every row is checked
+            before anything is imported; documents are created as drafts.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="import-file">Archive *</Label>
+              {!file ? (
+                <label
+                  htmlFor="import-file"
+                  className="flex flex-col items-center justify-center w-full h-24 border-2 border-dashed rounded-lg cursor-pointer bg-muted/50 hover:bg-muted/80 transition-colors"
+                >
+                  <Upload className="w-6 h-6 mb-2 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-semibold">Click to choose</span> a ZIP archive (MAX. 500MB)
+                  </p>
+                  <input
+                    id="import-file"
+                    type="file"
+                    className="hidden"
+                    accept=".zip"
+                    onChange={handleFileChange}
+                  />
+                </label>
+              ) : (
+                <div className="flex items-start gap-2 p-3 border rounded-lg">
+                  <FileArchive className="h-8 w-8 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium break-words leading-snug">{file.name}</p>
+                    <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFile(null)}
+                    className="flex-shrink-0"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={allowDuplicates}
+                onChange={(e) => setAllowDuplicates(e.target.checked)}
+              />
+              Import files that are already in the library
+            </label>
+
+            {error && (
+              <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {result && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm">
+                    {result.import.succeeded} created, {result.import.failed} failed
+                    {result.import.state === 'processing' &&
+                      ` - importing ${result.import.total - result.import.succeeded - result.import.failed} more...`}
+                    {result.import.state === 'rejected' && ' - nothing was imported'}
+                  </p>
+                  <Button type="button" variant="outline" size="sm" asChild>
+                    <a href={`/api/documents/import/${result.import.id}/report`}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Download report
+                    </a>
+                  </Button>
+                </div>
+                <div className="max-h-64 overflow-y-auto border rounded-md divide-y">
+                  {result.rows.map((row) => (
+                    <div key={row.row} className="flex items-start gap-3 p-2 text-sm">
+                      <span className="w-8 text-muted-foreground">{row.row}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="break-words">{row.title || row.fileName}</p>
+                        {row.error && <p className="text-xs text-muted-foreground">{row.error}</p>}
+                      </div>
+                      <Badge variant={STATUS_BADGES[row.status].variant}>
+                        {STATUS_BADGES[row.status].label}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+              Close
+            </Button>
+            <Button type="submit" disabled={!file || importing}>
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, CalendarClock, CalendarX } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { ReviewDashboard as ReviewDashboardData, ReviewDueItem } from '@/lib/documents/review-dashboard';
+
+function describeDue(days: number): string {
+  if (days < 0) return `${Math.abs(days)} day${days === -1 ? '' : 's'} overdue`;
+  if (days === 0) return 'Due today';
+  return `Due in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+function ReviewBucket({
+  title,
+  items,
+  variant,
+}: {
+  title: string;
+  items: ReviewDueItem[];
+  variant: 'destructive' | 'warning' | 'secondary';
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          {title}
+          <Badge variant={variant}>{items.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing here</p>
+        ) : (
+          <ul className="space-y-2">
+            {items.map((item) => (
+              <li key={item.id}>
+                <Link
+                  href={`/documents?doc=${item.id}`}
+                  className="block rounded-md border p-3 hover:bg-muted/50 transition-colors"
+                >
+                  <p className="text-sm font-medium truncate">{item.title}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {item.category} • v{item.version}
+                    {item.owner && ` • ${item.owner}`}
+                  </p>
+                  <p className="text-xs mt-1">
+                    {item.reviewDate} - {describeDue(item.daysUntilReview)}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ReviewDashboard() {
+  const [dashboard, setDashboard] = useState<ReviewDashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDashboard = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/documents/review-due');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch review dashboard');
+      }
+
+      setDashboard(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review dashboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDashboard();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-sm text-muted-foreground">Loading review dates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !dashboard) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-sm text-destructive">{error || 'No data'}</p>
+        <Button variant="outline" onClick={fetchDashboard} className="mt-4">
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex items-center justify-around gap-4">
+            <div className="flex items-center gap-3">
+              <div className="h-10 w-10 rounded-lg bg-destructive/10 flex items-center justify-center">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Overdue</p>
+                <p className="text-2xl font-bold">{dashboard.overdue.length}</p>
+              </div>
+            </div>
+            <div className="h-12 w-px bg-border" />
+            <div className="flex items-center gap-3">
+              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <CalendarClock className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Due in 90 days</p>
+                <p className="text-2xl font-bold">
+                  {dashboard.due30.length + dashboard.due60.length + dashboard.due90.length}
+                </p>
+              </div>
+            </div>
+            <div className="h-12 w-px bg-border" />
+            <div className="flex items-center gap-3">
+              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <CalendarX className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">No review date</p>
+                <p className="text-2xl font-bold">{dashboard.notSet.length}</p>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <ReviewBucket title="Overdue" items={dashboard.overdue} variant="destructive" />
+        <ReviewBucket title="Next 30 days" items={dashboard.due30} variant="warning" />
+        <ReviewBucket title="31-60 days" items={dashboard.due60} variant="secondary" />
+        <ReviewBucket title="61-90 days" items={dashboard.due90} variant="secondary" />
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Upload, FileText, X } from 'lucide-react';
+import { Upload, FileText, X, Copy } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -23,19 +23,33 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { formatFileSize } from '@/lib/utils';
+import type { Document } from '@/lib/db/table-storage';
+import { validateUploadFile } from '@/lib/documents/file-validation';
+
+const NO_PREVIOUS_REVISION = '__none__';
+
+/** An identical file already in the library, as reported by the upload API */
+interface DuplicateMatch {
+  existingDocument: Document;
+  currentDocumentId: string;
+}
 
 interface UploadDocumentDialogProps {
   onUploadSuccess?: () => void;
   categories?: string[];
+  /** Documents a new upload can replace as their next revision */
+  documents?: Document[];
 }
 
 export function UploadDocumentDialog({
   onUploadSuccess,
   categories = [],
+  documents = [],
 }: UploadDocumentDialogProps) {
   const [open, setOpen] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [duplicate, setDuplicate] = useState<DuplicateMatch | null>(null);
 
   // Form state
   const [file, setFile] = useState<File | null>(null);
@@ -43,31 +57,38 @@ export function UploadDocumentDialog({
   const [category, setCategory] = useState('');
   const [newCategory, setNewCategory] = useState('');
   const [version, setVersion] = useState('1.0');
+  const [supersedes, setSupersedes] = useState(NO_PREVIOUS_REVISION);
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [reviewDate, setReviewDate] = useState('');
+  const [owner, setOwner] = useState('');
+
+  const currentDocuments = documents.filter((doc) => doc.isCurrent !== false);
+
+  const handleSupersedesChange = (value: string) => {
+    setSupersedes(value);
+    const previous = currentDocuments.find((doc) => doc.id === value);
+    if (previous) {
+      // A new revision keeps the policy's title and category by default
+      setTitle(previous.title);
+      setOwner(previous.owner || '');
+      setCategory(categories.includes(previous.category) ? previous.category : '');
+      setNewCategory(categories.includes(previous.category) ? '' : previous.category);
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      // Validate file type
-      const allowedTypes = [
-        'application/pdf',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'application/msword',
-      ];
-
-      if (!allowedTypes.includes(selectedFile.type)) {
-        setError('Only PDF and DOCX files are allowed');
-        return;
-      }
-
-      // Validate file size (100MB)
-      const maxSize = 100 * 1024 * 1024;
-      if (selectedFile.size > maxSize) {
-        setError('File size must be less than 100MB');
+      // Validate file type and size
+      const fileError = validateUploadFile(selectedFile);
+      if (fileError) {
+        setError(fileError);
         return;
       }
 
       setFile(selectedFile);
       setError(null);
+      setDuplicate(null);
 
       // Auto-populate title from filename if empty
       if (!title) {
@@ -80,13 +101,24 @@ export function UploadDocumentDialog({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setDuplicate(null);
 
     if (!file || !title || (!category && !newCategory) || !version) {
       setError('Please fill in all required fields');
       return;
     }
 
+    await submitUpload(supersedes !== NO_PREVIOUS_REVISION ? supersedes : undefined);
+  };
+
+  /**
+   * @param supersedesId - Previous revision this upload replaces
+   * @param allowDuplicate - Upload even if the same file is already in the library
+   */
+  const submitUpload = async (supersedesId?: string, allowDuplicate: boolean = false) => {
+    if (!file) return;
     setUploading(true);
+    setError(null);
 
     try {
       const formData = new FormData();
@@ -94,6 +126,11 @@ export function UploadDocumentDialog({
       formData.append('title', title);
       formData.append('category', newCategory || category);
       formData.append('version', version);
+      if (effectiveDate) formData.append('effectiveDate', effectiveDate);
+      if (reviewDate) formData.append('reviewDate', reviewDate);
+      if (owner.trim()) formData.append('owner', owner.trim());
+      if (supersedesId) formData.append('supersedes', supersedesId);
+      if (allowDuplicate) formData.append('allowDuplicate', 'true');
 
       const response = await fetch('/api/documents', {
         method: 'POST',
@@ -102,6 +139,11 @@ export function UploadDocumentDialog({
 
       const data = await response.json();
 
+      if (response.status === 409 && data.duplicate) {
+        setDuplicate({ existingDocument: data.existingDocument, currentDocumentId: data.currentDocumentId });
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data.error || 'Failed to upload document');
       }
@@ -112,6 +154,11 @@ export function UploadDocumentDialog({
       setCategory('');
       setNewCategory('');
       setVersion('1.0');
+      setSupersedes(NO_PREVIOUS_REVISION);
+      setEffectiveDate('');
+      setReviewDate('');
+      setOwner('');
+      setDuplicate(null);
       setOpen(false);
 
       // Notify parent
@@ -126,6 +173,7 @@ export function UploadDocumentDialog({
   const handleRemoveFile = () => {
     setFile(null);
     setError(null);
+    setDuplicate(null);
   };
 
   return (
@@ -140,7 +188,8 @@ export function UploadDocumentDialog({
         <DialogHeader>
           <DialogTitle>Upload New Document</DialogTitle>
           <DialogDescription>
-            Upload a PDF or DOCX policy document with metadata.
+            Upload a PDF or DOCX policy document with metadata. New uploads start as
+            drafts and become searchable once published.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
@@ -192,6 +241,31 @@ export function UploadDocumentDialog({
               )}
             </div>
 
+            {/* Previous revision */}
+            {currentDocuments.length > 0 && (
+              <div className="grid gap-2">
+                <Label htmlFor="supersedes">New revision of</Label>
+                <Select value={supersedes} onValueChange={handleSupersedesChange}>
+                  <SelectTrigger id="supersedes">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PREVIOUS_REVISION}>None - new document</SelectItem>
+                    {currentDocuments.map((doc) => (
+                      <SelectItem key={doc.id} value={doc.id}>
+                        {doc.title} (v{doc.version})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {supersedes !== NO_PREVIOUS_REVISION && (
+                  <p className="text-xs text-muted-foreground">
+                    The previous version is removed from search once this one is indexed.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Title */}
             <div className="grid gap-2">
               <Label htmlFor="title">Title *</Label>
@@ -227,7 +301,7 @@ export function UploadDocumentDialog({
                     <Input
                       value={newCategory}
                       onChange={(e) => setNewCategory(e.target.value)}
-                      placeholder="Enter new category"
+                      placeholder="e.g., Renal > Peritoneal Dialysis"
                       required
                     />
                   )}
@@ -237,7 +311,7 @@ export function UploadDocumentDialog({
                   id="category"
                   value={newCategory}
                   onChange={(e) => setNewCategory(e.target.value)}
-                  placeholder="e.g., HR Policies"
+                  placeholder="e.g., Renal > Peritoneal Dialysis"
                   required
                 />
               )}
@@ -255,12 +329,77 @@ export function UploadDocumentDialog({
               />
             </div>
 
+            {/* Review schedule */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="effectiveDate">Effective Date</Label>
+                <Input
+                  id="effectiveDate"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="reviewDate">Review Date</Label>
+                <Input
+                  id="reviewDate"
+                  type="date"
+                  value={reviewDate}
+                  min={effectiveDate || undefined}
+                  onChange={(e) => setReviewDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {/* Owner */}
+            <div className="grid gap-2">
+              <Label htmlFor="owner">Owner</Label>
+              <Input
+                id="owner"
+                value={owner}
+                onChange={(e) => setOwner(e.target.value)}
+                placeholder="e.g., Infection Prevention Committee"
+              />
+            </div>
+
             {/* Error Message */}
             {error && (
               <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
                 {error}
               </div>
             )}
+
+            {duplicate && (
+              <div className="text-sm bg-muted p-3 rounded-md space-y-3">
+                <p className="flex items-start gap-2">
+                  <Copy className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    This file is already in the library as &quot;{duplicate.existingDocument.title}&quot;
+                    (v{duplicate.existingDocument.version}). Uploading it again would duplicate citations in answers.
+                  </span>
+                </p>
+                <div className="flex gap-2 flex-wrap">
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => submitUpload(duplicate.currentDocumentId, true)}
+                    disabled={uploading}
+                  >
+                    Link as new version
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => submitUpload(supersedes !== NO_PREVIOUS_REVISION ? supersedes : undefined, true)}
+                    disabled={uploading}
+                  >
+                    Upload anyway
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
 
           <DialogFooter>
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Download, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatDate } from '@/lib/utils';
+import type { Document } from '@/lib/db/table-storage';
+import type { RevisionHistory } from '@/lib/documents/versions';
+import { getReplacedFiles, type ReplacedFile } from '@/lib/documents/file-history';
+
+interface VersionHistoryProps {
+  documentId: string;
+  /** Called when a revision is picked; without it revisions link to /view/[id] */
+  onSelect?: (document: Document) => void;
+}
+
+export function VersionHistory({ documentId, onSelect }: VersionHistoryProps) {
+  const [history, setHistory] = useState<RevisionHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/documents/${documentId}/versions`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch version history');
+        }
+
+        setHistory(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load version history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [documentId]);
+
+  const handleDownloadReplaced = async (file: ReplacedFile) => {
+    try {
+      const response = await fetch(
+        `/api/documents/${documentId}/download?file=${encodeURIComponent(file.blobName)}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to get download URL');
+      }
+
+      window.open(data.downloadUrl, '_blank');
+    } catch (err) {
+      console.error('Download error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to download file');
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground p-4">Loading history...</p>;
+  }
+
+  if (error || !history) {
+    return <p className="text-sm text-destructive p-4">{error || 'No history available'}</p>;
+  }
+
+  // Newest revision first
+  const revisions = [...history.revisions].reverse();
+  const selected = history.revisions.find((revision) => revision.id === documentId);
+  const replacedFiles = selected ? [...getReplacedFiles(selected)].reverse() : [];
+
+  return (
+    <div className="p-4 space-y-3">
+      <h3 className="flex items-center gap-2 text-sm font-semibold">
+        <History className="h-4 w-4" />
+        Version History
+      </h3>
+      <ol className="space-y-2">
+        {revisions.map((revision) => {
+          const isSelected = revision.id === documentId;
+          const isCurrent = revision.id === history.currentDocumentId;
+          const content = (
+            <>
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm font-medium">
+                  {revision.revision ? `Revision ${revision.revision}` : 'Revision'} • v{revision.version}
+                </span>
+                {isCurrent ? (
+                  <Badge variant="success">Current</Badge>
+                ) : (
+                  <Badge variant="secondary">Superseded</Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Uploaded {formatDate(revision.createdAt)}
+                {revision.supersededAt && ` • replaced ${formatDate(revision.supersededAt)}`}
+              </p>
+            </>
+          );
+          const className = `block w-full text-left rounded-md border p-3 transition-colors ${
+            isSelected ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+          }`;
+
+          return (
+            <li key={revision.id}>
+              {onSelect ? (
+                <button type="button" className={className} onClick={() => onSelect(revision)}>
+                  {content}
+                </button>
+              ) : (
+                <Link href={`/view/${revision.id}`} className={className}>
+                  {content}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {replacedFiles.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold pt-2">Earlier files of this revision</h3>
+          <ul className="space-y-2">
+            {replacedFiles.map((file) => (
+              <li key={file.blobName}>
+                <button
+                  type="button"
+                  className="flex w-full items-start gap-2 rounded-md border p-3 text-left hover:bg-muted/50 transition-colors"
+                  onClick={() => handleDownloadReplaced(file)}
+                >
+                  <Download className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium break-words">{file.fileName || file.blobName}</span>
+                    <span className="block text-xs text-muted-foreground mt-1">
+                      Replaced {formatDate(file.replacedAt)} by {file.replacedBy}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import Link from 'next/link';
+import { ExternalLink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { Citation } from '@/lib/search/search-provider';
+
+export function CitationList({ citations }: { citations: Citation[] }) {
+  return (
+    <div className="space-y-3">
+      {citations.map((citation, index) => {
+        // Truncate snippet to max 150 characters
+        const truncatedSnippet = citation.snippet && citation.snippet.length > 150
+          ? citation.snippet.substring(0, 150) + '...'
+          : citation.snippet;
+
+        // A source that could not be matched to a document has nothing to open
+        if (citation.unresolved) {
+          return (
+            <div
+              key={index}
+              className="border-l-4 border-muted pl-4 py-2 rounded-r"
+              title="This source could not be matched to a document in the library"
+            >
+              <div className="flex items-start gap-3">
+                <span className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-muted-foreground text-xs font-semibold flex-shrink-0 mt-0.5">
+                  {citation.index}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium flex items-center gap-2">
+                    {citation.title}
+                    <Badge variant="outline">Unmatched source</Badge>
+                  </p>
+                  {truncatedSnippet && (
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                      {truncatedSnippet}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        }
+
+        return (
+          <Link
+            key={index}
+            href={`/view/${citation.documentId}`}
+            className="block border-l-4 border-primary pl-4 py-2 hover:bg-muted/50 transition-colors rounded-r"
+          >
+            <div className="flex items-start gap-3">
+              <span className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex-shrink-0 mt-0.5">
+                {citation.index}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium flex items-center gap-2">
+                  {citation.title}
+                  <ExternalLink className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                  {citation.reviewOverdue && (
+                    <Badge variant="destructive" title={`Review was due ${citation.reviewDate}`}>
+                      Review overdue
+                    </Badge>
+                  )}
+                </p>
+                {truncatedSnippet && (
+                  <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                    {truncatedSnippet}
+                  </p>
+                )}
+              </div>
+            </div>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import Link from 'next/link';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Citation } from '@/lib/search/search-provider';
+
+// Custom component to render markdown with clickable inline citations
+export function MarkdownWithCitations({
+  content,
+  citations,
+  chunkToCitationMap
+}: {
+  content: string;
+  citations: Citation[];
+  chunkToCitationMap?: Record<number, number>;
+}) {
+  // Process the markdown to make citation numbers clickable
+  // The numbers in the text [1], [2], [3] refer to chunk indices (0-indexed in the map)
+  const processedContent = content.replace(/\[(\d+)\]/g, (match, num) => {
+    const chunkNum = parseInt(num, 10);
+
+    // If we have a mapping, use it to find the correct citation
+    if (chunkToCitationMap) {
+      // Chunk indices are 0-based, but displayed as 1-based in text
+      const chunkIndex = chunkNum - 1;
+      const citationIndex = chunkToCitationMap[chunkIndex];
+
+      if (citationIndex !== undefined) {
+        const citation = citations.find(c => c.index === citationIndex);
+        if (citation) {
+          return `[${citationIndex}](#citation-${citationIndex} "${citation.title}")`;
+        }
+      }
+    } else {
+      // Fallback: direct mapping (old behavior)
+      const citationIndex = chunkNum - 1;
+      const citation = citations[citationIndex];
+      if (citation) {
+        return `[${chunkNum}](#citation-${chunkNum} "${citation.title}")`;
+      }
+    }
+
+    return match;
+  });
+
+  return (
+    <div className="prose prose-sm max-w-none dark:prose-invert">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          a: ({ node, href, children, ...props }) => {
+            // Handle citation links specially
+            if (href?.startsWith('#citation-')) {
+              const citationNum = href.replace('#citation-', '');
+              const citationIndex = parseInt(citationNum, 10);
+
+              // Find citation by its index property (not array position)
+              const citation = citations.find(c => c.index === citationIndex);
+
+              // If citation or documentId is missing, just show the number without link
+              if (!citation || !citation.documentId) {
+                return <span className="text-primary font-semibold" title={citation?.title}>[{citationNum}]</span>;
+              }
+
+              return (
+                <Link
+                  href={`/view/${citation.documentId}`}
+                  className="inline-flex items-center text-primary font-semibold no-underline hover:underline"
+                  title={citation.title}
+                  {...props}
+                >
+                  [{citationNum}]
+                </Link>
+              );
+            }
+            // Regular links
+            return <a href={href} {...props}>{children}</a>;
+          },
+        }}
+      >
+        {processedContent}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { Check, FileText, FolderOpen, X } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { SearchFilters } from '@/lib/search/search-provider';
+
+const ALL = 'all';
+
+const chipClassName = 'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs transition';
+
+interface SearchFilterChipsProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  /** Category paths to choose from */
+  categories: string[];
+  /** Title of the document in filters.documentId */
+  documentTitle?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Narrow questions to a category, a single document and/or current versions
+ */
+export function SearchFilterChips({ filters, onChange, categories, documentTitle, disabled }: SearchFilterChipsProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-muted-foreground">
+      <span>Search in:</span>
+
+      {filters.documentId && (
+        <span className={cn(chipClassName, 'border-primary bg-primary/10 text-foreground')}>
+          <FileText className="h-3 w-3" />
+          {documentTitle || 'Selected document'}
+          <button
+            type="button"
+            onClick={() => onChange({ ...filters, documentId: undefined })}
+            disabled={disabled}
+            title="Search all documents"
+            className="rounded-full hover:text-destructive"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      )}
+
+      {filters.category ? (
+        <span className={cn(chipClassName, 'border-primary bg-primary/10 text-foreground')}>
+          <FolderOpen className="h-3 w-3" />
+          {filters.category}
+          <button
+            type="button"
+            onClick={() => onChange({ ...filters, category: undefined })}
+            disabled={disabled}
+            title="Search all categories"
+            className="rounded-full hover:text-destructive"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ) : categories.length > 0 && (
+        <Select
+          value={ALL}
+          onValueChange={(value) => onChange({ ...filters, category: value === ALL ? undefined : value })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-7 w-auto gap-1.5 rounded-full border-border/70 bg-muted/30 px-3 text-xs text-foreground">
+            <FolderOpen className="h-3 w-3" />
+            <SelectValue placeholder="All categories" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category} value={category}>
+                {category}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <button
+        type="button"
+        onClick={() => onChange({ ...filters, currentOnly: !filters.currentOnly })}
+        disabled={disabled}
+        aria-pressed={!!filters.currentOnly}
+        className={cn(
+          chipClassName,
+          filters.currentOnly
+            ? 'border-primary bg-primary/10 text-foreground'
+            : 'border-border/70 bg-muted/30 text-foreground hover:bg-muted/60'
+        )}
+      >
+        {filters.currentOnly && <Check className="h-3 w-3" />}
+        Current versions only
+      </button>
+    </div>
+  );
+}
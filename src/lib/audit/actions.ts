@@ -0,0 +1,56 @@
+export type AuditAction =
+  | 'document.list'
+  | 'document.view'
+  | 'document.versions'
+  | 'document.upload'
+  | 'document.import'
+  | 'document.status_change'
+  | 'document.metadata_update'
+  | 'document.file_replace'
+  | 'document.workflow'
+  | 'document.delete'
+  | 'document.restore'
+  | 'document.purge'
+  | 'document.download'
+  | 'document.index_status'
+  | 'document.reindex'
+  | 'document.reindex_all'
+  | 'document.review_dashboard'
+  | 'category.create'
+  | 'category.update'
+  | 'category.merge'
+  | 'category.delete'
+  | 'library.export'
+  | 'library.restore'
+  | 'search.query';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'document.list',
+  'document.view',
+  'document.versions',
+  'document.upload',
+  'document.import',
+  'document.status_change',
+  'document.metadata_update',
+  'document.file_replace',
+  'document.workflow',
+  'document.delete',
+  'document.restore',
+  'document.purge',
+  'document.download',
+  'document.index_status',
+  'document.reindex',
+  'document.reindex_all',
+  'document.review_dashboard',
+  'category.create',
+  'category.update',
+  'category.merge',
+  'category.delete',
+  'library.export',
+  'library.restore',
+  'search.query',
+];
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && (AUDIT_ACTIONS as string[]).includes(value);
+}
@@ -0,0 +1,129 @@
+import type { Session } from 'next-auth';
+import type { Document } from '@/lib/db/table-storage';
+import { appendAuditEvent, type AuditEvent, type AuditEventFilter } from '@/lib/db/audit-events';
+import { toCsv } from '@/lib/csv';
+import { isAuditAction, type AuditAction } from './actions';
+
+export interface AuditEntry {
+  action: AuditAction;
+  documentId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Client IP from the proxy headers (Netlify sets x-nf-client-connection-ip)
+ */
+function getClientIp(request: Request): string | undefined {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return (
+    request.headers.get('x-nf-client-connection-ip') ||
+    forwardedFor?.split(',')[0].trim() ||
+    request.headers.get('x-real-ip') ||
+    undefined
+  );
+}
+
+function toJson(value: Record<string, unknown> | null | undefined): string | undefined {
+  return value ? JSON.stringify(value) : undefined;
+}
+
+/**
+ * Fields of a document worth recording in before/after snapshots
+ */
+export function snapshotDocument(document: Document | null | undefined): Record<string, unknown> | null {
+  if (!document) return null;
+  return {
+    title: document.title,
+    category: document.category,
+    version: document.version,
+    status: document.status,
+    publicationState: document.publicationState,
+    fileName: document.fileName,
+    blobName: document.blobName,
+    errorMessage: document.errorMessage,
+    owner: document.owner,
+    tags: document.tags,
+    deletedAt: document.deletedAt,
+  };
+}
+
+/**
+ * Append an audit event for a request.
+ * Failures are logged rather than thrown so auditing never breaks the action itself.
+ */
+export async function recordAudit(
+  request: Request,
+  session: Session | null,
+  entry: AuditEntry
+): Promise<void> {
+  try {
+    await appendAuditEvent({
+      action: entry.action,
+      actor: session?.user?.id || session?.user?.name || 'anonymous',
+      actorRole: session?.user?.role,
+      documentId: entry.documentId,
+      before: toJson(entry.before),
+      after: toJson(entry.after),
+      details: toJson(entry.details),
+      ip: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${entry.action}:`, error);
+  }
+}
+
+/**
+ * Append an audit event for background work done on a user's behalf,
+ * where there is no request to take the IP and user agent from
+ */
+export async function recordBackgroundAudit(actor: string, entry: AuditEntry): Promise<void> {
+  try {
+    await appendAuditEvent({
+      action: entry.action,
+      actor,
+      documentId: entry.documentId,
+      before: toJson(entry.before),
+      after: toJson(entry.after),
+      details: toJson(entry.details),
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${entry.action}:`, error);
+  }
+}
+
+/**
+ * Read the shared ?action=&actor=&documentId= filter
+ * @returns the filter, or an error message for an unknown action
+ */
+export function parseAuditFilter(searchParams: URLSearchParams): AuditEventFilter | string {
+  const action = searchParams.get('action') || undefined;
+  if (action && !isAuditAction(action)) {
+    return `Unknown action: ${action}`;
+  }
+  return {
+    action: action as AuditEventFilter['action'],
+    actor: searchParams.get('actor') || undefined,
+    documentId: searchParams.get('documentId') || undefined,
+  };
+}
+
+const CSV_COLUMNS: Array<keyof AuditEvent> = [
+  'occurredAt',
+  'action',
+  'actor',
+  'actorRole',
+  'documentId',
+  'before',
+  'after',
+  'details',
+  'ip',
+  'userAgent',
+  'id',
+];
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  return toCsv(CSV_COLUMNS, events.map((event) => CSV_COLUMNS.map((column) => event[column])));
+}
@@ -0,0 +1,101 @@
+import bcrypt from 'bcryptjs';
+import type { User } from 'next-auth';
+import { createUser, getUser, listUsers, updateUser, type UserAccount } from '@/lib/db/users';
+import type { Role } from './roles';
+
+export const MIN_PASSWORD_LENGTH = 8;
+const BCRYPT_ROUNDS = 12;
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,64}$/i;
+
+/**
+ * @returns an error message, or null if the username is valid
+ */
+export function validateUsername(username: unknown): string | null {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username.trim())) {
+    return 'Username must be 3-64 characters: letters, numbers, dots, dashes or underscores';
+  }
+  return null;
+}
+
+/**
+ * @returns an error message, or null if the password is acceptable
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export async function createAccount(input: {
+  username: string;
+  password: string;
+  role: Role;
+  displayName?: string;
+  email?: string;
+}): Promise<UserAccount> {
+  const username = input.username.trim();
+  return createUser({
+    username,
+    displayName: input.displayName?.trim() || username,
+    email: input.email?.trim() || undefined,
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    disabled: false,
+  });
+}
+
+export async function resetPassword(username: string, password: string): Promise<UserAccount> {
+  return updateUser(username, { passwordHash: await hashPassword(password) });
+}
+
+export function getBootstrapAdminUsername(): string {
+  return process.env.ADMIN_USERNAME || 'admin';
+}
+
+/**
+ * The env-configured admin (ADMIN_USERNAME/ADMIN_PASSWORD) only works until an
+ * enabled admin account exists in the users table, so a fresh install can sign
+ * in and create real accounts.
+ */
+export async function isBootstrapAdminAllowed(): Promise<boolean> {
+  const users = await listUsers();
+  return !users.some((user) => user.role === 'admin' && !user.disabled);
+}
+
+/**
+ * Check a username and password against the users table
+ * @returns the NextAuth user, or null if the credentials are invalid or the account is disabled
+ */
+export async function verifyCredentials(username: string, password: string): Promise<User | null> {
+  const account = await getUser(username);
+
+  if (account) {
+    if (account.disabled) return null;
+    if (!(await bcrypt.compare(password, account.passwordHash))) return null;
+
+    await updateUser(account.username, { lastLoginAt: new Date() });
+    return {
+      id: account.username,
+      name: account.displayName,
+      email: account.email,
+      role: account.role,
+    };
+  }
+
+  const adminUsername = getBootstrapAdminUsername();
+  const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
+  if (username !== adminUsername || password !== adminPassword) return null;
+  if (!(await isBootstrapAdminAllowed())) return null;
+
+  return {
+    id: adminUsername,
+    name: adminUsername,
+    email: `${adminUsername}@pgcplus.local`,
+    role: 'admin',
+  };
+}
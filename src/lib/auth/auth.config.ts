@@ -0,0 +1,43 @@
+import type { NextAuthConfig } from 'next-auth';
+import { isRole } from './roles';
+
+/**
+ * Edge-safe part of the NextAuth config, shared with middleware.
+ * Providers that touch storage are added in ./config.ts.
+ */
+export const authConfig = {
+  providers: [],
+  pages: {
+    signIn: '/auth/signin',
+  },
+  callbacks: {
+    authorized({ auth, request: { nextUrl } }) {
+      const isLoggedIn = !!auth?.user;
+      const isOnDocuments = nextUrl.pathname.startsWith('/documents');
+      const isOnAdmin = nextUrl.pathname.startsWith('/admin');
+
+      if (isOnDocuments || isOnAdmin) {
+        if (isLoggedIn) return true;
+        return false; // Redirect unauthenticated users to login page
+      }
+
+      return true;
+    },
+    jwt({ token, user }) {
+      // Copy the role onto the token at sign-in so it survives between requests
+      if (user?.role) {
+        token.role = user.role;
+      }
+      return token;
+    },
+    session({ session, token }) {
+      if (token.sub) {
+        session.user.id = token.sub;
+      }
+      // Sessions issued before roles existed fall back to the least privileged role
+      session.user.role = isRole(token.role) ? token.role : 'viewer';
+      return session;
+    },
+  },
+  secret: process.env.NEXTAUTH_SECRET,
+} satisfies NextAuthConfig;
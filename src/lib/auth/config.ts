@@ -1,8 +1,10 @@
 import NextAuth from 'next-auth';
 import Credentials from 'next-auth/providers/credentials';
-import bcrypt from 'bcryptjs';
+import { authConfig } from './auth.config';
+import { verifyCredentials } from './accounts';
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
+  ...authConfig,
   providers: [
     Credentials({
       credentials: {
@@ -14,43 +16,11 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           return null;
         }
 
-        const adminUsername = process.env.ADMIN_USERNAME || 'admin';
-        const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
-
-        // Check username
-        if (credentials.username !== adminUsername) {
-          return null;
-        }
-
-        // Check password (plain text comparison for now, but can be hashed)
-        if (credentials.password !== adminPassword) {
-          return null;
-        }
-
-        // Return user object
-        return {
-          id: '1',
-          name: adminUsername,
-          email: `${adminUsername}@pgcplus.local`,
-        };
+        return verifyCredentials(
+          credentials.username as string,
+          credentials.password as string
+        );
       },
     }),
   ],
-  pages: {
-    signIn: '/auth/signin',
-  },
-  callbacks: {
-    authorized({ auth, request: { nextUrl } }) {
-      const isLoggedIn = !!auth?.user;
-      const isOnDocuments = nextUrl.pathname.startsWith('/documents');
-
-      if (isOnDocuments) {
-        if (isLoggedIn) return true;
-        return false; // Redirect unauthenticated users to login page
-      }
-
-      return true;
-    },
-  },
-  secret: process.env.NEXTAUTH_SECRET,
 });
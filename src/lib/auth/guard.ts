@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+import { getUser } from '@/lib/db/users';
+import { getBootstrapAdminUsername, isBootstrapAdminAllowed } from './accounts';
+import { auth } from './config';
+import { hasRole, isPublicReadEnabled, type Role } from './roles';
+
+export type AuthGuardResult =
+  | { ok: true; session: Session | null }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Require a signed-in user with at least the given role.
+ * Returns a 401 JSON response without a session and 403 when the role is too low.
+ *
+ * @example
+ * const guard = await requireRole('editor');
+ * if (!guard.ok) return guard.response;
+ */
+export async function requireRole(required: Role): Promise<AuthGuardResult> {
+  const session = await auth();
+
+  if (!session?.user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }),
+    };
+  }
+
+  // Disabling an account or changing its role takes effect immediately,
+  // without waiting for the session token to expire
+  const account = session.user.id ? await getUser(session.user.id) : null;
+  if (account?.disabled) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Account is disabled' }, { status: 401 }),
+    };
+  }
+  if (account) {
+    session.user.role = account.role;
+  } else if (session.user.id === getBootstrapAdminUsername() && !(await isBootstrapAdminAllowed())) {
+    // The env admin has no row; its sessions end once a real admin account exists
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'The bootstrap admin is disabled - sign in with an admin account' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!hasRole(session.user.role, required)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `Forbidden - ${required} role required` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, session };
+}
+
+/**
+ * Guard for read endpoints: open to everyone when PUBLIC_READ_ACCESS is enabled,
+ * otherwise requires the viewer role
+ */
+export async function requireReadAccess(): Promise<AuthGuardResult> {
+  if (isPublicReadEnabled()) {
+    return { ok: true, session: await auth() };
+  }
+  return requireRole('viewer');
+}
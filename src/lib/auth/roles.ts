@@ -0,0 +1,35 @@
+/**
+ * - viewer: read documents and search (when public reads are disabled)
+ * - editor: upload documents, change status and reindex single documents
+ * - admin: delete documents, bulk operations and admin tools
+ */
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+// Each role can do everything the roles before it can
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a user with `role` may perform an action that needs `required`
+ */
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Whether read endpoints (document list, details, downloads, search) are open
+ * to anonymous visitors. Controlled by PUBLIC_READ_ACCESS; defaults to true so
+ * the public search page and /view links keep working.
+ */
+export function isPublicReadEnabled(): boolean {
+  return process.env.PUBLIC_READ_ACCESS !== 'false';
+}
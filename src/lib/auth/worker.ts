@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Whether a request comes from a scheduled worker (Netlify function or cron)
+ * Checks the INDEXING_WORKER_SECRET bearer token. Without a secret every
+ * request is refused, unless ALLOW_UNAUTHENTICATED_WORKERS=true outside production.
+ */
+export function isWorkerRequest(request: NextRequest): boolean {
+  const secret = process.env.INDEXING_WORKER_SECRET;
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production' && process.env.ALLOW_UNAUTHENTICATED_WORKERS === 'true';
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
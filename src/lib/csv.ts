@@ -0,0 +1,59 @@
+/**
+ * Quote a value for a CSV cell
+ * Leading =, +, - and @ are prefixed with ' so spreadsheets do not evaluate user input as formulas
+ */
+export function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document (CRLF line endings) from a header and rows of cell values
+ */
+export function toCsv(columns: string[], rows: unknown[][]): string {
+  return [columns, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180 quoting; a leading BOM and blank lines are ignored)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
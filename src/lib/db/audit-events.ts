@@ -0,0 +1,78 @@
+import { randomUUID } from 'crypto';
+import { getEntityStore, type EntityFilter, type EntityPage } from './entity-store';
+import type { AuditAction } from '@/lib/audit/actions';
+
+/**
+ * Append-only audit event. Row keys count down from the maximum date so the
+ * newest events sort first in every table provider.
+ */
+export interface AuditEvent {
+  partitionKey: string;
+  rowKey: string;
+  id: string;
+  action: AuditAction;
+  /** Username, or 'anonymous' for public reads */
+  actor: string;
+  actorRole?: string;
+  documentId?: string;
+  /** JSON snapshot of the fields before the action */
+  before?: string;
+  /** JSON snapshot of the fields after the action */
+  after?: string;
+  /** JSON with action-specific details, e.g. the search query */
+  details?: string;
+  ip?: string;
+  userAgent?: string;
+  occurredAt: Date;
+}
+
+export type NewAuditEvent = Omit<AuditEvent, 'partitionKey' | 'rowKey' | 'id' | 'occurredAt'>;
+
+export interface AuditEventFilter {
+  action?: AuditAction;
+  actor?: string;
+  documentId?: string;
+}
+
+const AUDIT_PARTITION = 'audit';
+// Largest millisecond timestamp a JavaScript Date can hold
+const MAX_TIMESTAMP = 8640000000000000;
+
+function toRowKey(occurredAt: Date, id: string): string {
+  const inverted = (MAX_TIMESTAMP - occurredAt.getTime()).toString().padStart(16, '0');
+  return `${inverted}-${id}`;
+}
+
+export async function appendAuditEvent(event: NewAuditEvent): Promise<AuditEvent> {
+  const occurredAt = new Date();
+  const id = randomUUID();
+  const entity: AuditEvent = {
+    partitionKey: AUDIT_PARTITION,
+    rowKey: toRowKey(occurredAt, id),
+    id,
+    ...event,
+    occurredAt,
+  };
+  // createEntity never overwrites, so existing events cannot be altered through this path
+  await getEntityStore().createEntity(entity);
+  return entity;
+}
+
+/**
+ * One page of audit events, newest first
+ */
+export async function listAuditEvents(
+  filter: AuditEventFilter = {},
+  options: { pageSize?: number; continuationToken?: string } = {}
+): Promise<EntityPage<AuditEvent>> {
+  const entityFilter: EntityFilter = {};
+  if (filter.action) entityFilter.action = filter.action;
+  if (filter.actor) entityFilter.actor = filter.actor;
+  if (filter.documentId) entityFilter.documentId = filter.documentId;
+
+  return getEntityStore().listEntities<AuditEvent>(AUDIT_PARTITION, {
+    filter: entityFilter,
+    pageSize: options.pageSize,
+    continuationToken: options.continuationToken,
+  });
+}
@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import { getEntityStore, listAllEntities } from './entity-store';
+
+/**
+ * Managed document category (rowKey = category ID)
+ * Documents store the category's full path, e.g. "Renal > Peritoneal Dialysis"
+ */
+export interface Category {
+  partitionKey: string;
+  rowKey: string;
+  id: string;
+  name: string;
+  /** Parent category ID; missing for top-level categories */
+  parentId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CATEGORY_PARTITION = 'category';
+
+export async function createCategory(category: { name: string; parentId?: string }): Promise<Category> {
+  const id = randomUUID();
+  const now = new Date();
+  const entity: Category = {
+    partitionKey: CATEGORY_PARTITION,
+    rowKey: id,
+    id,
+    name: category.name,
+    parentId: category.parentId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getEntityStore().createEntity(entity);
+  return entity;
+}
+
+export async function getCategory(id: string): Promise<Category | null> {
+  return getEntityStore().getEntity<Category>(CATEGORY_PARTITION, id);
+}
+
+export async function updateCategory(
+  id: string,
+  updates: Partial<Pick<Category, 'name' | 'parentId'>>
+): Promise<Category> {
+  const category = await getCategory(id);
+  if (!category) {
+    throw new Error(`Category not found: ${id}`);
+  }
+  // Replace so a category moved to the top level loses its parentId
+  const updated = { ...category, ...updates, updatedAt: new Date() };
+  await getEntityStore().updateEntity(updated, 'Replace');
+  return updated;
+}
+
+export async function deleteCategory(id: string): Promise<void> {
+  await getEntityStore().deleteEntity(CATEGORY_PARTITION, id);
+}
+
+export async function listCategories(): Promise<Category[]> {
+  return listAllEntities<Category>(getEntityStore(), CATEGORY_PARTITION);
+}
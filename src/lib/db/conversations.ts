@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import { getEntityStore, listAllEntities } from './entity-store';
+
+/**
+ * A search conversation (rowKey = conversation ID)
+ */
+export interface Conversation {
+  partitionKey: string;
+  rowKey: string;
+  id: string;
+  /** User who started it; missing for anonymous conversations, which are reachable by ID only */
+  ownerId?: string;
+  /** The first question, shortened */
+  title?: string;
+  turnCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One question and its answer (rowKey = conversation ID + zero-padded turn number)
+ */
+export interface ConversationTurnEntity {
+  partitionKey: string;
+  rowKey: string;
+  conversationId: string;
+  turn: number;
+  question: string;
+  answer: string;
+  /** JSON array of the answer's citations */
+  citations: string;
+  /** JSON object mapping chunk indices to citation indices */
+  chunkToCitationMap: string;
+  createdAt: Date;
+}
+
+const CONVERSATION_PARTITION = 'conversation';
+const TURN_PARTITION = 'conversation-turn';
+
+function turnRowKey(conversationId: string, turn: number): string {
+  return `${conversationId}-${turn.toString().padStart(5, '0')}`;
+}
+
+export async function createConversation(ownerId?: string): Promise<Conversation> {
+  const id = randomUUID();
+  const now = new Date();
+  const entity: Conversation = {
+    partitionKey: CONVERSATION_PARTITION,
+    rowKey: id,
+    id,
+    ownerId,
+    turnCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getEntityStore().createEntity(entity);
+  return entity;
+}
+
+export async function getConversation(id: string): Promise<Conversation | null> {
+  return getEntityStore().getEntity<Conversation>(CONVERSATION_PARTITION, id);
+}
+
+/**
+ * Take the conversation's next turn number, unless another request took it first
+ * @returns the updated conversation, or null if it changed since it was read
+ */
+export async function claimConversationTurn(
+  conversation: Conversation,
+  updates: Partial<Pick<Conversation, 'title'>> = {}
+): Promise<Conversation | null> {
+  const updated = { ...conversation, ...updates, turnCount: conversation.turnCount + 1, updatedAt: new Date() };
+  const claimed = await getEntityStore().replaceEntityIf(updated, { turnCount: conversation.turnCount });
+  return claimed ? updated : null;
+}
+
+export async function listConversations(ownerId: string): Promise<Conversation[]> {
+  return listAllEntities<Conversation>(getEntityStore(), CONVERSATION_PARTITION, { ownerId });
+}
+
+export async function saveConversationTurn(
+  turn: Omit<ConversationTurnEntity, 'partitionKey' | 'rowKey' | 'createdAt'>
+): Promise<ConversationTurnEntity> {
+  const entity: ConversationTurnEntity = {
+    partitionKey: TURN_PARTITION,
+    rowKey: turnRowKey(turn.conversationId, turn.turn),
+    ...turn,
+    createdAt: new Date(),
+  };
+  await getEntityStore().createEntity(entity);
+  return entity;
+}
+
+/**
+ * Turns of a conversation, oldest first
+ */
+export async function listConversationTurns(conversationId: string): Promise<ConversationTurnEntity[]> {
+  const turns = await listAllEntities<ConversationTurnEntity>(getEntityStore(), TURN_PARTITION, { conversationId });
+  return turns.sort((a, b) => a.turn - b.turn);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const store = getEntityStore();
+  for (const turn of await listConversationTurns(id)) {
+    await store.deleteEntity(TURN_PARTITION, turn.rowKey);
+  }
+  await store.deleteEntity(CONVERSATION_PARTITION, id);
+}
@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import { getEntityStore, listAllEntities, nextUpdatedAt } from './entity-store';
+
+export type DocumentImportState = 'processing' | 'completed' | 'rejected';
+
+/**
+ * A bulk import from a ZIP archive (rowKey = import ID)
+ * 'rejected' imports failed validation and created no documents;
+ * 'processing' imports are creating their documents in the background
+ */
+export interface DocumentImport {
+  partitionKey: string;
+  rowKey: string;
+  id: string;
+  archiveName: string;
+  state: DocumentImportState;
+  importedBy: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** The uploaded archive, kept in blob storage while the import is processing */
+  archiveBlobName?: string;
+  /** Set while a worker is processing the import, so others leave it alone */
+  leaseUntil?: Date;
+  createdAt: Date;
+  /** Changes on every write, so a lease can be claimed with a conditional write */
+  updatedAt?: Date;
+  completedAt?: Date;
+}
+
+/** 'importing': the document is being created; a row left in this state was interrupted */
+export type ImportRowStatus = 'pending' | 'importing' | 'created' | 'failed' | 'skipped';
+
+/**
+ * Outcome of one manifest row (rowKey = import ID + zero-padded row number)
+ */
+export interface ImportRowResult {
+  partitionKey: string;
+  rowKey: string;
+  importId: string;
+  /** Line number in manifest.csv (the header is line 1) */
+  row: number;
+  fileName: string;
+  title: string;
+  category: string;
+  version: string;
+  reviewDate?: string;
+  status: ImportRowStatus;
+  documentId?: string;
+  error?: string;
+}
+
+export type NewImportRowResult = Omit<ImportRowResult, 'partitionKey' | 'rowKey' | 'importId'>;
+
+const IMPORT_PARTITION = 'import';
+const IMPORT_ROW_PARTITION = 'import-row';
+
+function getImportRowKey(importId: string, row: number): string {
+  return `${importId}-${row.toString().padStart(6, '0')}`;
+}
+
+export async function saveDocumentImport(
+  documentImport: Omit<DocumentImport, 'partitionKey' | 'rowKey' | 'id' | 'createdAt' | 'updatedAt'>,
+  rows: NewImportRowResult[]
+): Promise<{ documentImport: DocumentImport; rows: ImportRowResult[] }> {
+  const id = randomUUID();
+  const store = getEntityStore();
+
+  const rowEntities: ImportRowResult[] = rows.map((row) => ({
+    partitionKey: IMPORT_ROW_PARTITION,
+    rowKey: getImportRowKey(id, row.row),
+    importId: id,
+    ...row,
+  }));
+  for (const entity of rowEntities) {
+    await store.createEntity(entity);
+  }
+
+  // The summary goes last so a listed import always has its rows
+  const now = new Date();
+  const entity: DocumentImport = {
+    partitionKey: IMPORT_PARTITION,
+    rowKey: id,
+    id,
+    ...documentImport,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.createEntity(entity);
+
+  return { documentImport: entity, rows: rowEntities };
+}
+
+export async function getDocumentImport(id: string): Promise<DocumentImport | null> {
+  return getEntityStore().getEntity<DocumentImport>(IMPORT_PARTITION, id);
+}
+
+export async function updateDocumentImport(
+  id: string,
+  updates: Partial<Omit<DocumentImport, 'partitionKey' | 'rowKey' | 'id' | 'updatedAt'>>
+): Promise<DocumentImport> {
+  const documentImport = await getDocumentImport(id);
+  if (!documentImport) {
+    throw new Error(`Import not found: ${id}`);
+  }
+  const updated = { ...documentImport, ...updates, updatedAt: nextUpdatedAt(documentImport.updatedAt) };
+  await getEntityStore().updateEntity(updated, 'Replace');
+  return updated;
+}
+
+/**
+ * Lease a processing import, unless another worker wrote it since it was read
+ * @returns the leased import, or null if another worker changed it first
+ */
+export async function claimDocumentImport(
+  documentImport: DocumentImport,
+  leaseUntil: Date
+): Promise<DocumentImport | null> {
+  if (documentImport.state !== 'processing' || !documentImport.updatedAt) return null;
+  const updated = { ...documentImport, leaseUntil, updatedAt: nextUpdatedAt(documentImport.updatedAt) };
+  const claimed = await getEntityStore().replaceEntityIf(updated, {
+    state: 'processing',
+    updatedAt: documentImport.updatedAt,
+  });
+  return claimed ? updated : null;
+}
+
+export async function updateImportRow(
+  importId: string,
+  row: number,
+  updates: Pick<ImportRowResult, 'status' | 'documentId' | 'error'>
+): Promise<ImportRowResult> {
+  const store = getEntityStore();
+  const existing = await store.getEntity<ImportRowResult>(IMPORT_ROW_PARTITION, getImportRowKey(importId, row));
+  if (!existing) {
+    throw new Error(`Import row not found: ${importId} row ${row}`);
+  }
+  const updated = { ...existing, ...updates };
+  await store.updateEntity(updated, 'Replace');
+  return updated;
+}
+
+/**
+ * Row results of an import, in manifest order
+ */
+export async function listImportRows(importId: string): Promise<ImportRowResult[]> {
+  const rows = await listAllEntities<ImportRowResult>(getEntityStore(), IMPORT_ROW_PARTITION, { importId });
+  return rows.sort((a, b) => a.row - b.row);
+}
+
+/**
+ * Every import (or those in one state), newest first
+ */
+export async function listDocumentImports(state?: DocumentImportState): Promise<DocumentImport[]> {
+  const imports = await listAllEntities<DocumentImport>(getEntityStore(), IMPORT_PARTITION, state ? { state } : undefined);
+  return imports.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
@@ -0,0 +1,128 @@
+import { createAzureTableStore } from './stores/azure-table-store';
+import { createMemoryStore } from './stores/memory-store';
+import { createSqliteStore } from './stores/sqlite-store';
+
+/**
+ * Minimal shape shared by every row, mirroring Azure Table Storage keys
+ */
+export interface TableEntity {
+  partitionKey: string;
+  rowKey: string;
+}
+
+/**
+ * Equality filter on entity properties (combined with AND)
+ */
+export type EntityFilter = Record<string, string | number | boolean>;
+
+/**
+ * Property values an entity must still have for a conditional write
+ */
+export type EntityCondition = Record<string, string | number | boolean | Date>;
+
+export type UpdateMode = 'Merge' | 'Replace';
+
+export interface ListEntitiesOptions {
+  filter?: EntityFilter;
+  pageSize?: number;
+  continuationToken?: string;
+}
+
+export interface EntityPage<T> {
+  entities: T[];
+  continuationToken?: string;
+}
+
+/**
+ * Partitioned key/value table used by all repositories.
+ * Implementations: Azure Table Storage, in-memory and SQLite.
+ */
+export interface EntityStore {
+  getEntity<T extends TableEntity>(partitionKey: string, rowKey: string): Promise<T | null>;
+  /** Insert a new entity, failing if the key already exists */
+  createEntity<T extends TableEntity>(entity: T): Promise<void>;
+  /** Insert or fully replace an entity */
+  upsertEntity<T extends TableEntity>(entity: T): Promise<void>;
+  /**
+   * Update an existing entity, failing if it does not exist.
+   * 'Merge' (default) leaves unspecified properties untouched; 'Replace' drops them.
+   */
+  updateEntity<T extends TableEntity>(entity: Partial<T> & TableEntity, mode?: UpdateMode): Promise<void>;
+  /**
+   * Replace an entity only if its stored properties still equal `expected`.
+   * Of several workers racing to claim the same row, exactly one wins.
+   * @returns false if the entity is missing or has changed
+   */
+  replaceEntityIf<T extends TableEntity>(entity: T, expected: EntityCondition): Promise<boolean>;
+  /** Delete an entity; deleting a missing entity is a no-op */
+  deleteEntity(partitionKey: string, rowKey: string): Promise<void>;
+  listEntities<T extends TableEntity>(
+    partitionKey: string,
+    options?: ListEntitiesOptions
+  ): Promise<EntityPage<T>>;
+}
+
+export type TableStorageProvider = 'azure' | 'memory' | 'sqlite';
+
+let entityStore: EntityStore | null = null;
+
+/**
+ * Resolve the configured table storage provider
+ * Set TABLE_STORAGE_PROVIDER to 'azure' (default), 'memory' or 'sqlite'
+ */
+export function getTableStorageProvider(): TableStorageProvider {
+  const provider = (process.env.TABLE_STORAGE_PROVIDER || 'azure').toLowerCase();
+  if (provider !== 'azure' && provider !== 'memory' && provider !== 'sqlite') {
+    throw new Error(`Unknown TABLE_STORAGE_PROVIDER: ${provider}`);
+  }
+  return provider;
+}
+
+/**
+ * Get or create the entity store for the configured provider
+ */
+export function getEntityStore(): EntityStore {
+  if (!entityStore) {
+    switch (getTableStorageProvider()) {
+      case 'memory':
+        entityStore = createMemoryStore();
+        break;
+      case 'sqlite':
+        entityStore = createSqliteStore();
+        break;
+      default:
+        entityStore = createAzureTableStore();
+    }
+  }
+  return entityStore;
+}
+
+/**
+ * Timestamp for a write, strictly later than the previous one so that
+ * updatedAt can serve as the version a conditional write compares
+ */
+export function nextUpdatedAt(previous: Date | undefined): Date {
+  const now = Date.now();
+  return new Date(previous ? Math.max(now, new Date(previous).getTime() + 1) : now);
+}
+
+/**
+ * Read every entity in a partition, following continuation tokens
+ */
+export async function listAllEntities<T extends TableEntity>(
+  store: EntityStore,
+  partitionKey: string,
+  filter?: EntityFilter
+): Promise<T[]> {
+  const entities: T[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await store.listEntities<T>(partitionKey, { filter, continuationToken });
+    entities.push(...page.entities);
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+
+  return entities;
+}
+
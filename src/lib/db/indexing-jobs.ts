@@ -0,0 +1,80 @@
+import { getEntityStore, listAllEntities, nextUpdatedAt } from './entity-store';
+
+export type IndexingJobState = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Background indexing job - one row per document (rowKey = document ID)
+ */
+export interface IndexingJob {
+  partitionKey: string;
+  rowKey: string;
+  documentId: string;
+  fileName: string;
+  state: IndexingJobState;
+  /** Provider operation being polled while the job is running */
+  operationName?: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  nextRunAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JOB_PARTITION = 'index-job';
+
+export async function saveIndexingJob(
+  job: Omit<IndexingJob, 'partitionKey' | 'rowKey'>
+): Promise<IndexingJob> {
+  const entity: IndexingJob = {
+    partitionKey: JOB_PARTITION,
+    rowKey: job.documentId,
+    ...job,
+  };
+  await getEntityStore().upsertEntity(entity);
+  return entity;
+}
+
+export async function getIndexingJob(documentId: string): Promise<IndexingJob | null> {
+  return getEntityStore().getEntity<IndexingJob>(JOB_PARTITION, documentId);
+}
+
+export async function updateIndexingJob(
+  documentId: string,
+  updates: Partial<IndexingJob>
+): Promise<IndexingJob> {
+  const job = await getIndexingJob(documentId);
+  if (!job) {
+    throw new Error(`Indexing job not found: ${documentId}`);
+  }
+  const updated = { ...job, ...updates, updatedAt: nextUpdatedAt(job.updatedAt) };
+  await getEntityStore().updateEntity(updated, 'Replace');
+  return updated;
+}
+
+/**
+ * Apply updates only if the job has not been written since it was read
+ * @returns the updated job, or null if another worker changed it first
+ */
+export async function claimIndexingJob(
+  job: IndexingJob,
+  updates: Partial<IndexingJob>
+): Promise<IndexingJob | null> {
+  const updated = { ...job, ...updates, updatedAt: nextUpdatedAt(job.updatedAt) };
+  const claimed = await getEntityStore().replaceEntityIf(updated, {
+    state: job.state,
+    attempts: job.attempts,
+    updatedAt: job.updatedAt,
+  });
+  return claimed ? updated : null;
+}
+
+export async function listIndexingJobs(state?: IndexingJobState): Promise<IndexingJob[]> {
+  return listAllEntities<IndexingJob>(getEntityStore(), JOB_PARTITION, state ? { state } : undefined);
+}
+
+export async function deleteIndexingJob(documentId: string): Promise<void> {
+  await getEntityStore().deleteEntity(JOB_PARTITION, documentId);
+}
@@ -0,0 +1,54 @@
+import { getEntityStore, listAllEntities } from './entity-store';
+
+/**
+ * A logical policy grouping every revision of one document (rowKey = policy ID,
+ * which is the ID of its first revision)
+ */
+export interface Policy {
+  partitionKey: string;
+  rowKey: string;
+  policyId: string;
+  currentDocumentId: string;
+  /** JSON array of document IDs, oldest revision first */
+  revisionIds: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const POLICY_PARTITION = 'policy';
+
+export function getRevisionIds(policy: Policy): string[] {
+  return JSON.parse(policy.revisionIds) as string[];
+}
+
+export async function getPolicy(policyId: string): Promise<Policy | null> {
+  return getEntityStore().getEntity<Policy>(POLICY_PARTITION, policyId);
+}
+
+export async function savePolicy(policy: {
+  policyId: string;
+  currentDocumentId: string;
+  revisionIds: string[];
+  createdAt?: Date;
+}): Promise<Policy> {
+  const now = new Date();
+  const entity: Policy = {
+    partitionKey: POLICY_PARTITION,
+    rowKey: policy.policyId,
+    policyId: policy.policyId,
+    currentDocumentId: policy.currentDocumentId,
+    revisionIds: JSON.stringify(policy.revisionIds),
+    createdAt: policy.createdAt || now,
+    updatedAt: now,
+  };
+  await getEntityStore().upsertEntity(entity);
+  return entity;
+}
+
+export async function deletePolicy(policyId: string): Promise<void> {
+  await getEntityStore().deleteEntity(POLICY_PARTITION, policyId);
+}
+
+export async function listPolicies(): Promise<Policy[]> {
+  return listAllEntities<Policy>(getEntityStore(), POLICY_PARTITION);
+}
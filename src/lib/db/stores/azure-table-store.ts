@@ -0,0 +1,133 @@
+import { TableClient, AzureNamedKeyCredential, odata } from '@azure/data-tables';
+import type { EntityCondition, EntityFilter, EntityStore, TableEntity } from '../entity-store';
+
+let tableClient: TableClient | null = null;
+
+function getTableClient(): TableClient {
+  if (!tableClient) {
+    if (!process.env.AZURE_STORAGE_ACCOUNT_NAME || !process.env.AZURE_STORAGE_ACCOUNT_KEY) {
+      throw new Error('Azure Storage credentials not configured');
+    }
+
+    const credential = new AzureNamedKeyCredential(
+      process.env.AZURE_STORAGE_ACCOUNT_NAME,
+      process.env.AZURE_STORAGE_ACCOUNT_KEY
+    );
+
+    tableClient = new TableClient(
+      `https://${process.env.AZURE_STORAGE_ACCOUNT_NAME}.table.core.windows.net`,
+      'documents',
+      credential
+    );
+  }
+  return tableClient;
+}
+
+/**
+ * Build an OData filter for a partition plus property equality checks
+ */
+function buildFilter(partitionKey: string, filter?: EntityFilter): string {
+  const clauses = [odata`PartitionKey eq ${partitionKey}`];
+  for (const [key, value] of Object.entries(filter || {})) {
+    clauses.push(`${key} eq ${odata`${value}`}`);
+  }
+  return clauses.join(' and ');
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { statusCode?: number })?.statusCode === 404;
+}
+
+// 412: the entity changed since it was read (If-Match failed)
+function isConflict(error: unknown): boolean {
+  const statusCode = (error as { statusCode?: number })?.statusCode;
+  return statusCode === 412 || statusCode === 404;
+}
+
+function matchesCondition(entity: Record<string, unknown>, expected: EntityCondition): boolean {
+  return Object.entries(expected).every(([key, value]) => {
+    const actual = entity[key];
+    return value instanceof Date
+      ? actual instanceof Date && actual.getTime() === value.getTime()
+      : actual === value;
+  });
+}
+
+/**
+ * Entity store backed by the Azure Table Storage 'documents' table
+ */
+export function createAzureTableStore(): EntityStore {
+  return {
+    async getEntity<T extends TableEntity>(partitionKey: string, rowKey: string) {
+      try {
+        const entity = await getTableClient().getEntity<T>(partitionKey, rowKey);
+        return entity as unknown as T;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async createEntity(entity) {
+      await getTableClient().createEntity(entity);
+    },
+
+    async upsertEntity(entity) {
+      await getTableClient().upsertEntity(entity, 'Replace');
+    },
+
+    async updateEntity(entity, mode = 'Merge') {
+      await getTableClient().updateEntity(entity, mode);
+    },
+
+    async replaceEntityIf(entity, expected) {
+      let current: Record<string, unknown> & { etag: string };
+      try {
+        current = await getTableClient().getEntity(entity.partitionKey, entity.rowKey);
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+      if (!matchesCondition(current, expected)) return false;
+
+      // The etag makes the write fail if another writer got in since the read
+      try {
+        await getTableClient().updateEntity(entity, 'Replace', { etag: current.etag });
+        return true;
+      } catch (error) {
+        if (isConflict(error)) return false;
+        throw error;
+      }
+    },
+
+    async deleteEntity(partitionKey, rowKey) {
+      try {
+        await getTableClient().deleteEntity(partitionKey, rowKey);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+
+    async listEntities<T extends TableEntity>(
+      partitionKey: string,
+      options: { filter?: EntityFilter; pageSize?: number; continuationToken?: string } = {}
+    ) {
+      const pages = getTableClient()
+        .listEntities<T>({ queryOptions: { filter: buildFilter(partitionKey, options.filter) } })
+        .byPage({
+          maxPageSize: options.pageSize,
+          continuationToken: options.continuationToken,
+        });
+
+      const { value: page } = await pages.next();
+      if (!page) {
+        return { entities: [] };
+      }
+
+      return {
+        entities: Array.from(page as unknown as T[]),
+        continuationToken: page.continuationToken,
+      };
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import type { EntityCondition, EntityFilter, EntityStore, TableEntity } from '../entity-store';
+
+type Partition = Map<string, Record<string, unknown>>;
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one store
+const globalForStore = globalThis as unknown as { __pgcMemoryTables?: Map<string, Partition> };
+
+function getPartition(partitionKey: string): Partition {
+  if (!globalForStore.__pgcMemoryTables) {
+    globalForStore.__pgcMemoryTables = new Map();
+  }
+  let partition = globalForStore.__pgcMemoryTables.get(partitionKey);
+  if (!partition) {
+    partition = new Map();
+    globalForStore.__pgcMemoryTables.set(partitionKey, partition);
+  }
+  return partition;
+}
+
+function matchesFilter(entity: Record<string, unknown>, filter?: EntityFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, value]) => entity[key] === value);
+}
+
+function matchesCondition(entity: Record<string, unknown>, expected: EntityCondition): boolean {
+  return Object.entries(expected).every(([key, value]) => {
+    const actual = entity[key];
+    return value instanceof Date
+      ? actual instanceof Date && actual.getTime() === value.getTime()
+      : actual === value;
+  });
+}
+
+/**
+ * Entity store held in process memory - for tests and offline development.
+ * Data is lost when the server restarts.
+ */
+export function createMemoryStore(): EntityStore {
+  return {
+    async getEntity<T extends TableEntity>(partitionKey: string, rowKey: string) {
+      const entity = getPartition(partitionKey).get(rowKey);
+      return entity ? (structuredClone(entity) as unknown as T) : null;
+    },
+
+    async createEntity(entity) {
+      const partition = getPartition(entity.partitionKey);
+      if (partition.has(entity.rowKey)) {
+        throw new Error(`Entity already exists: ${entity.partitionKey}/${entity.rowKey}`);
+      }
+      partition.set(entity.rowKey, structuredClone({ ...entity } as Record<string, unknown>));
+    },
+
+    async upsertEntity(entity) {
+      getPartition(entity.partitionKey).set(entity.rowKey, structuredClone({ ...entity } as Record<string, unknown>));
+    },
+
+    async updateEntity(entity, mode = 'Merge') {
+      const partition = getPartition(entity.partitionKey);
+      const existing = partition.get(entity.rowKey);
+      if (!existing) {
+        throw new Error(`Entity not found: ${entity.partitionKey}/${entity.rowKey}`);
+      }
+      const merged: Record<string, unknown> = mode === 'Replace' ? {} : { ...existing };
+      for (const [key, value] of Object.entries(entity)) {
+        // Match Azure semantics: undefined properties are never written
+        if (value !== undefined) merged[key] = value;
+      }
+      partition.set(entity.rowKey, structuredClone(merged));
+    },
+
+    async replaceEntityIf(entity, expected) {
+      // No await between the check and the write, so this is atomic
+      const partition = getPartition(entity.partitionKey);
+      const existing = partition.get(entity.rowKey);
+      if (!existing || !matchesCondition(existing, expected)) return false;
+
+      const replaced: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(entity)) {
+        if (value !== undefined) replaced[key] = value;
+      }
+      partition.set(entity.rowKey, structuredClone(replaced));
+      return true;
+    },
+
+    async deleteEntity(partitionKey, rowKey) {
+      getPartition(partitionKey).delete(rowKey);
+    },
+
+    async listEntities<T extends TableEntity>(
+      partitionKey: string,
+      options: { filter?: EntityFilter; pageSize?: number; continuationToken?: string } = {}
+    ) {
+      const matches = Array.from(getPartition(partitionKey).values())
+        .filter((entity) => matchesFilter(entity, options.filter))
+        .sort((a, b) => String(a.rowKey).localeCompare(String(b.rowKey)));
+
+      const offset = options.continuationToken ? parseInt(options.continuationToken, 10) : 0;
+      const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+      const next = offset + pageSize;
+
+      return {
+        entities: matches.slice(offset, next).map((entity) => structuredClone(entity) as unknown as T),
+        continuationToken: next < matches.length ? String(next) : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { EntityCondition, EntityFilter, EntityStore, TableEntity } from '../entity-store';
+
+const DEFAULT_PAGE_SIZE = 1000;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+let database: BetterSqlite3.Database | null = null;
+
+/**
+ * Open (and migrate) the SQLite database on first use.
+ * better-sqlite3 is loaded lazily so Azure deployments never need the native module.
+ */
+async function getDatabase(): Promise<BetterSqlite3.Database> {
+  if (!database) {
+    const { default: Database } = await import('better-sqlite3');
+    const dbPath = path.resolve(process.env.SQLITE_DATABASE_PATH || 'data/pgcplus.db');
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    database = new Database(dbPath);
+    database.pragma('journal_mode = WAL');
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS entities (
+        partition_key TEXT NOT NULL,
+        row_key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (partition_key, row_key)
+      )
+    `);
+  }
+  return database;
+}
+
+function serialize(entity: object): string {
+  return JSON.stringify(entity);
+}
+
+// Revive ISO date strings so entities round-trip like they do through Azure Tables
+function deserialize<T>(data: string): T {
+  return JSON.parse(data, (_key, value) =>
+    typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+  ) as T;
+}
+
+function buildFilterClause(filter?: EntityFilter): { sql: string; params: Array<string | number> } {
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+
+  for (const [key, value] of Object.entries(filter || {})) {
+    if (!/^\w+$/.test(key)) {
+      throw new Error(`Invalid filter property: ${key}`);
+    }
+    clauses.push('json_extract(data, ?) = ?');
+    params.push(`$.${key}`, typeof value === 'boolean' ? Number(value) : value);
+  }
+
+  return {
+    sql: clauses.length > 0 ? ` AND ${clauses.join(' AND ')}` : '',
+    params,
+  };
+}
+
+// Dates are stored as ISO strings (see serialize)
+function toConditionFilter(expected: EntityCondition): EntityFilter {
+  return Object.fromEntries(
+    Object.entries(expected).map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value])
+  );
+}
+
+/**
+ * Entity store persisted to a local SQLite file (SQLITE_DATABASE_PATH)
+ */
+export function createSqliteStore(): EntityStore {
+  return {
+    async getEntity<T extends TableEntity>(partitionKey: string, rowKey: string) {
+      const db = await getDatabase();
+      const row = db
+        .prepare('SELECT data FROM entities WHERE partition_key = ? AND row_key = ?')
+        .get(partitionKey, rowKey) as { data: string } | undefined;
+      return row ? deserialize<T>(row.data) : null;
+    },
+
+    async createEntity(entity) {
+      const db = await getDatabase();
+      try {
+        db.prepare('INSERT INTO entities (partition_key, row_key, data) VALUES (?, ?, ?)')
+          .run(entity.partitionKey, entity.rowKey, serialize(entity));
+      } catch (error) {
+        if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+          throw new Error(`Entity already exists: ${entity.partitionKey}/${entity.rowKey}`);
+        }
+        throw error;
+      }
+    },
+
+    async upsertEntity(entity) {
+      const db = await getDatabase();
+      db.prepare('INSERT OR REPLACE INTO entities (partition_key, row_key, data) VALUES (?, ?, ?)')
+        .run(entity.partitionKey, entity.rowKey, serialize(entity));
+    },
+
+    async updateEntity(entity, mode = 'Merge') {
+      const db = await getDatabase();
+      const row = db
+        .prepare('SELECT data FROM entities WHERE partition_key = ? AND row_key = ?')
+        .get(entity.partitionKey, entity.rowKey) as { data: string } | undefined;
+      if (!row) {
+        throw new Error(`Entity not found: ${entity.partitionKey}/${entity.rowKey}`);
+      }
+
+      const merged: Record<string, unknown> = mode === 'Replace' ? {} : deserialize(row.data);
+      for (const [key, value] of Object.entries(entity)) {
+        // Match Azure semantics: undefined properties are never written
+        if (value !== undefined) merged[key] = value;
+      }
+
+      db.prepare('UPDATE entities SET data = ? WHERE partition_key = ? AND row_key = ?')
+        .run(serialize(merged), entity.partitionKey, entity.rowKey);
+    },
+
+    async replaceEntityIf(entity, expected) {
+      const db = await getDatabase();
+      const { sql, params } = buildFilterClause(toConditionFilter(expected));
+      const result = db
+        .prepare(`UPDATE entities SET data = ? WHERE partition_key = ? AND row_key = ?${sql}`)
+        .run(serialize(entity), entity.partitionKey, entity.rowKey, ...params);
+      return result.changes > 0;
+    },
+
+    async deleteEntity(partitionKey, rowKey) {
+      const db = await getDatabase();
+      db.prepare('DELETE FROM entities WHERE partition_key = ? AND row_key = ?').run(partitionKey, rowKey);
+    },
+
+    async listEntities<T extends TableEntity>(
+      partitionKey: string,
+      options: { filter?: EntityFilter; pageSize?: number; continuationToken?: string } = {}
+    ) {
+      const db = await getDatabase();
+      const { sql, params } = buildFilterClause(options.filter);
+      const offset = options.continuationToken ? parseInt(options.continuationToken, 10) : 0;
+      const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+
+      // Fetch one extra row to know whether another page follows
+      const rows = db
+        .prepare(
+          `SELECT data FROM entities WHERE partition_key = ?${sql} ORDER BY row_key LIMIT ? OFFSET ?`
+        )
+        .all(partitionKey, ...params, pageSize + 1, offset) as Array<{ data: string }>;
+
+      return {
+        entities: rows.slice(0, pageSize).map((row) => deserialize<T>(row.data)),
+        continuationToken: rows.length > pageSize ? String(offset + pageSize) : undefined,
+      };
+    },
+  };
+}
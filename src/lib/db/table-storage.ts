@@ -1,26 +1,11 @@
-import { TableClient, AzureNamedKeyCredential } from '@azure/data-tables';
-
-let tableClient: TableClient | null = null;
-
-function getTableClient(): TableClient {
-  if (!tableClient) {
-    if (!process.env.AZURE_STORAGE_ACCOUNT_NAME || !process.env.AZURE_STORAGE_ACCOUNT_KEY) {
-      throw new Error('Azure Storage credentials not configured');
-    }
-
-    const credential = new AzureNamedKeyCredential(
-      process.env.AZURE_STORAGE_ACCOUNT_NAME,
-      process.env.AZURE_STORAGE_ACCOUNT_KEY
-    );
-
-    tableClient = new TableClient(
-      `https://${process.env.AZURE_STORAGE_ACCOUNT_NAME}.table.core.windows.net`,
-      'documents',
-      credential
-    );
-  }
-  return tableClient;
-}
+import {
+  getEntityStore,
+  listAllEntities,
+  type EntityFilter,
+  type EntityPage,
+  type EntityStore,
+} from './entity-store';
+import type { PublicationState } from '@/lib/documents/publication-states';
 
 export interface Document {
   partitionKey: string;
@@ -29,63 +14,290 @@ export interface Document {
   title: string;
   category: string;
   version: string;
-  status: 'processing' | 'ready' | 'failed';
+  /** Search indexing state ('unindexed' until the document is published) */
+  status: 'processing' | 'ready' | 'failed' | 'unindexed';
   storageUri: string;
   blobName: string;
+  fileName?: string;
   fileSize?: string;
   fileType?: string;
+  /** SHA-256 of the file content (hex), used to spot duplicate uploads */
+  contentHash?: string;
   geminiDocumentId?: string;
   geminiFileSearchStoreName?: string;
   errorMessage?: string;
+  indexingAttempts?: number;
+  indexingLastError?: string;
+  indexingQueuedAt?: Date;
+  indexingStartedAt?: Date;
+  indexingCompletedAt?: Date;
+  /** Logical policy this revision belongs to (see policies.ts); older rows have none */
+  policyId?: string;
+  /** 1-based position in the policy's revision list */
+  revision?: number;
+  /** False once a newer revision replaces this one; missing means current */
+  isCurrent?: boolean;
+  /** ID of the revision this one replaced */
+  supersedes?: string;
+  /** ID of the revision that replaced this one */
+  supersededBy?: string;
+  supersededAt?: Date;
+  /** Governance workflow state; missing on older rows, which count as published */
+  publicationState?: PublicationState;
+  approvedBy?: string;
+  approvedAt?: Date;
+  approvalComment?: string;
+  publishedAt?: Date;
+  /** Date the policy takes effect (YYYY-MM-DD) */
+  effectiveDate?: string;
+  /** Date the policy is next due for review (YYYY-MM-DD) */
+  reviewDate?: string;
+  /** Person or team responsible for reviewing the policy */
+  owner?: string;
+  /** JSON array of free-text tags (see tags.ts) */
+  tags?: string;
+  /** JSON array of files replaced in place, oldest first (see file-history.ts) */
+  replacedFiles?: string;
+  /** Set while the document is in the recycle bin */
+  deletedAt?: Date;
+  deletedBy?: string;
   createdAt: Date;
   timestamp: Date;
 }
 
-export async function createDocument(doc: Omit<Document, 'partitionKey' | 'rowKey' | 'id' | 'createdAt' | 'timestamp'>): Promise<Document> {
-  const id = Date.now().toString();
-  const now = new Date();
-  const entity: Document = {
-    partitionKey: 'doc',
-    rowKey: id,
-    id,
-    ...doc,
-    createdAt: now,
-    timestamp: now,
-  };
+export type NewDocument = Omit<Document, 'partitionKey' | 'rowKey' | 'id' | 'createdAt' | 'timestamp'>;
+
+export interface FileSearchStoreConfig {
+  partitionKey: string;
+  rowKey: string;
+  storeName: string;
+  displayName: string;
+  createdAt: Date;
+  timestamp: Date;
+}
+
+/**
+ * Persistence for documents and the File Search Store configuration row.
+ * Backed by whichever EntityStore TABLE_STORAGE_PROVIDER selects.
+ */
+export interface DocumentRepository {
+  createDocument(doc: NewDocument): Promise<Document>;
+  /** Write a complete row under its existing ID (library restore); fails if the ID is taken */
+  insertDocument(doc: Document): Promise<Document>;
+  /** Every document, newest first; the filter is applied by the store */
+  getAllDocuments(filter?: EntityFilter): Promise<Document[]>;
+  /** One page of documents in ID (upload) order, using the store's continuation token */
+  listDocumentsPage(options: { filter?: EntityFilter; pageSize: number; continuationToken?: string }): Promise<EntityPage<Document>>;
+  /**
+   * One page of documents newest first, using the store's continuation token
+   * The filter may only use category and status (the fields the index rows carry)
+   */
+  listRecentDocumentsPage(options: { filter?: EntityFilter; pageSize: number; continuationToken?: string }): Promise<EntityPage<Document>>;
+  getDocumentById(id: string): Promise<Document | null>;
+  updateDocument(id: string, updates: Partial<Document>): Promise<Document>;
+  deleteDocument(id: string): Promise<void>;
+  getStoreConfig(): Promise<FileSearchStoreConfig | null>;
+  saveStoreConfig(config: Pick<FileSearchStoreConfig, 'storeName' | 'displayName'>): Promise<FileSearchStoreConfig>;
+}
+
+const DOCUMENT_PARTITION = 'doc';
+// Index rows keyed so the store's key order is newest first
+const RECENT_INDEX_PARTITION = 'doc-recent';
+const CONFIG_PARTITION = 'config';
+const STORE_CONFIG_ROW = 'file-search-store';
+// Marks that the recent index has been built for rows created before it existed
+const RECENT_INDEX_READY_ROW = 'doc-recent-index';
+// Larger than any document ID (a millisecond timestamp), so inverted values stay positive
+const MAX_TIMESTAMP = 1e15;
+
+/**
+ * Points at a document from the newest-first index (rowKey = inverted document ID)
+ */
+interface RecentDocumentIndexEntity {
+  partitionKey: string;
+  rowKey: string;
+  documentId: string;
+  category: string;
+  status: Document['status'];
+}
+
+// IDs are unique upload timestamps, so inverting them orders rows newest first
+function recentIndexRowKey(id: string): string {
+  return (MAX_TIMESTAMP - Number(id)).toString().padStart(15, '0');
+}
+
+export function createDocumentRepository(store: EntityStore): DocumentRepository {
+  let lastId = 0;
+
+  // IDs are upload timestamps; bump past the last one so rows created in the
+  // same millisecond (e.g. a bulk import) do not collide
+  function nextDocumentId(): string {
+    lastId = Math.max(Date.now(), lastId + 1);
+    return lastId.toString();
+  }
 
-  await getTableClient().createEntity(entity);
-  return entity;
+  let recentIndexReady = false;
+
+  async function saveRecentIndexRow(doc: Document): Promise<void> {
+    await store.upsertEntity<RecentDocumentIndexEntity>({
+      partitionKey: RECENT_INDEX_PARTITION,
+      rowKey: recentIndexRowKey(doc.id),
+      documentId: doc.id,
+      category: doc.category,
+      status: doc.status,
+    });
+  }
+
+  // Build index rows for documents created before the index existed (once per store)
+  async function ensureRecentIndex(): Promise<void> {
+    if (recentIndexReady) return;
+    if (!(await store.getEntity(CONFIG_PARTITION, RECENT_INDEX_READY_ROW))) {
+      for (const doc of await listAllEntities<Document>(store, DOCUMENT_PARTITION)) {
+        await saveRecentIndexRow(doc);
+      }
+      await store.upsertEntity({ partitionKey: CONFIG_PARTITION, rowKey: RECENT_INDEX_READY_ROW, createdAt: new Date() });
+    }
+    recentIndexReady = true;
+  }
+
+  return {
+    async createDocument(doc) {
+      const id = nextDocumentId();
+      const now = new Date();
+      const entity: Document = {
+        partitionKey: DOCUMENT_PARTITION,
+        rowKey: id,
+        id,
+        ...doc,
+        createdAt: now,
+        timestamp: now,
+      };
+
+      await store.createEntity(entity);
+      await saveRecentIndexRow(entity);
+      return entity;
+    },
+
+    async insertDocument(doc) {
+      const entity: Document = { ...doc, partitionKey: DOCUMENT_PARTITION, rowKey: doc.id };
+      await store.createEntity(entity);
+      await saveRecentIndexRow(entity);
+      return entity;
+    },
+
+    async getAllDocuments(filter) {
+      const docs = await listAllEntities<Document>(store, DOCUMENT_PARTITION, filter);
+      return docs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    },
+
+    async listDocumentsPage(options) {
+      return store.listEntities<Document>(DOCUMENT_PARTITION, options);
+    },
+
+    async listRecentDocumentsPage(options) {
+      await ensureRecentIndex();
+      const page = await store.listEntities<RecentDocumentIndexEntity>(RECENT_INDEX_PARTITION, options);
+      const documents = await Promise.all(
+        page.entities.map((row) => store.getEntity<Document>(DOCUMENT_PARTITION, row.documentId))
+      );
+      return {
+        // A row can outlive its document briefly if a delete failed halfway
+        entities: documents.filter((doc): doc is Document => !!doc),
+        continuationToken: page.continuationToken,
+      };
+    },
+
+    async getDocumentById(id) {
+      return store.getEntity<Document>(DOCUMENT_PARTITION, id);
+    },
+
+    async updateDocument(id, updates) {
+      const entity = await store.getEntity<Document>(DOCUMENT_PARTITION, id);
+      if (!entity) {
+        throw new Error(`Document not found: ${id}`);
+      }
+      // Replace rather than merge so properties set to undefined are cleared
+      const updated = { ...entity, ...updates };
+      await store.updateEntity(updated, 'Replace');
+      if (updated.category !== entity.category || updated.status !== entity.status) {
+        await saveRecentIndexRow(updated);
+      }
+      return updated;
+    },
+
+    async deleteDocument(id) {
+      await store.deleteEntity(DOCUMENT_PARTITION, id);
+      await store.deleteEntity(RECENT_INDEX_PARTITION, recentIndexRowKey(id));
+    },
+
+    async getStoreConfig() {
+      return store.getEntity<FileSearchStoreConfig>(CONFIG_PARTITION, STORE_CONFIG_ROW);
+    },
+
+    async saveStoreConfig({ storeName, displayName }) {
+      const now = new Date();
+      const config: FileSearchStoreConfig = {
+        partitionKey: CONFIG_PARTITION,
+        rowKey: STORE_CONFIG_ROW,
+        storeName,
+        displayName,
+        createdAt: now,
+        timestamp: now,
+      };
+      await store.upsertEntity(config);
+      return config;
+    },
+  };
 }
 
-export async function getAllDocuments(): Promise<Document[]> {
-  const entities = getTableClient().listEntities<Document>({
-    queryOptions: { filter: "PartitionKey eq 'doc'" }
-  });
+let documentRepository: DocumentRepository | null = null;
 
-  const docs: Document[] = [];
-  for await (const entity of entities) {
-    docs.push(entity as Document);
+/**
+ * Get or create the document repository for the configured table storage provider
+ */
+export function getDocumentRepository(): DocumentRepository {
+  if (!documentRepository) {
+    documentRepository = createDocumentRepository(getEntityStore());
   }
+  return documentRepository;
+}
 
-  return docs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+export async function createDocument(doc: NewDocument): Promise<Document> {
+  return getDocumentRepository().createDocument(doc);
+}
+
+export async function insertDocument(doc: Document): Promise<Document> {
+  return getDocumentRepository().insertDocument(doc);
+}
+
+export async function getAllDocuments(filter?: EntityFilter): Promise<Document[]> {
+  return getDocumentRepository().getAllDocuments(filter);
+}
+
+export async function listDocumentsPage(options: {
+  filter?: EntityFilter;
+  pageSize: number;
+  continuationToken?: string;
+}): Promise<EntityPage<Document>> {
+  return getDocumentRepository().listDocumentsPage(options);
+}
+
+export async function listRecentDocumentsPage(options: {
+  filter?: EntityFilter;
+  pageSize: number;
+  continuationToken?: string;
+}): Promise<EntityPage<Document>> {
+  return getDocumentRepository().listRecentDocumentsPage(options);
 }
 
 export async function getDocumentById(id: string): Promise<Document | null> {
-  try {
-    const entity = await getTableClient().getEntity<Document>('doc', id);
-    return entity as Document;
-  } catch {
-    return null;
-  }
+  return getDocumentRepository().getDocumentById(id);
 }
 
 export async function updateDocument(id: string, updates: Partial<Document>): Promise<Document> {
-  const entity = await getTableClient().getEntity<Document>('doc', id);
-  const updated = { ...entity, ...updates };
-  await getTableClient().updateEntity(updated, 'Merge');
-  return updated as Document;
+  return getDocumentRepository().updateDocument(id, updates);
 }
 
 export async function deleteDocument(id: string): Promise<void> {
-  await getTableClient().deleteEntity('doc', id);
+  return getDocumentRepository().deleteDocument(id);
 }
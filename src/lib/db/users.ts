@@ -0,0 +1,71 @@
+import { getEntityStore, listAllEntities } from './entity-store';
+import type { Role } from '@/lib/auth/roles';
+
+/**
+ * User account - one row per user (rowKey = lower-cased username)
+ */
+export interface UserAccount {
+  partitionKey: string;
+  rowKey: string;
+  username: string;
+  displayName: string;
+  email?: string;
+  role: Role;
+  /** bcrypt hash - never returned from the API */
+  passwordHash: string;
+  disabled: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PublicUserAccount = Omit<UserAccount, 'partitionKey' | 'rowKey' | 'passwordHash'>;
+
+const USER_PARTITION = 'user';
+
+function toRowKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+export function toPublicUser(user: UserAccount): PublicUserAccount {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { partitionKey, rowKey, passwordHash, ...rest } = user;
+  return rest;
+}
+
+export async function createUser(
+  user: Omit<UserAccount, 'partitionKey' | 'rowKey' | 'createdAt' | 'updatedAt'>
+): Promise<UserAccount> {
+  const now = new Date();
+  const entity: UserAccount = {
+    partitionKey: USER_PARTITION,
+    rowKey: toRowKey(user.username),
+    ...user,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getEntityStore().createEntity(entity);
+  return entity;
+}
+
+export async function getUser(username: string): Promise<UserAccount | null> {
+  return getEntityStore().getEntity<UserAccount>(USER_PARTITION, toRowKey(username));
+}
+
+export async function updateUser(
+  username: string,
+  updates: Partial<Omit<UserAccount, 'partitionKey' | 'rowKey' | 'username'>>
+): Promise<UserAccount> {
+  const user = await getUser(username);
+  if (!user) {
+    throw new Error(`User not found: ${username}`);
+  }
+  const updated = { ...user, ...updates, updatedAt: new Date() };
+  await getEntityStore().updateEntity(updated, 'Replace');
+  return updated;
+}
+
+export async function listUsers(): Promise<UserAccount[]> {
+  const users = await listAllEntities<UserAccount>(getEntityStore(), USER_PARTITION);
+  return users.sort((a, b) => a.username.localeCompare(b.username));
+}
@@ -0,0 +1,46 @@
+import { randomUUID } from 'crypto';
+import { getEntityStore, listAllEntities } from './entity-store';
+import type { PublicationState, WorkflowAction } from '@/lib/documents/publication-states';
+
+/**
+ * One publication workflow step taken on a document
+ */
+export interface WorkflowTransition {
+  partitionKey: string;
+  rowKey: string;
+  documentId: string;
+  action: WorkflowAction;
+  from: PublicationState;
+  to: PublicationState;
+  actor: string;
+  comment?: string;
+  occurredAt: Date;
+}
+
+const TRANSITION_PARTITION = 'workflow';
+
+export async function appendWorkflowTransition(
+  transition: Omit<WorkflowTransition, 'partitionKey' | 'rowKey' | 'occurredAt'>
+): Promise<WorkflowTransition> {
+  const occurredAt = new Date();
+  const entity: WorkflowTransition = {
+    partitionKey: TRANSITION_PARTITION,
+    rowKey: `${transition.documentId}-${occurredAt.getTime()}-${randomUUID().slice(0, 8)}`,
+    ...transition,
+    occurredAt,
+  };
+  await getEntityStore().createEntity(entity);
+  return entity;
+}
+
+/**
+ * Workflow history of a document, oldest first
+ */
+export async function listWorkflowTransitions(documentId: string): Promise<WorkflowTransition[]> {
+  const transitions = await listAllEntities<WorkflowTransition>(
+    getEntityStore(),
+    TRANSITION_PARTITION,
+    { documentId }
+  );
+  return transitions.sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+}
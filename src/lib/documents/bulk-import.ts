@@ -0,0 +1,498 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import JSZip from 'jszip';
+import {
+  claimDocumentImport,
+  getDocumentImport,
+  listDocumentImports,
+  listImportRows,
+  saveDocumentImport,
+  updateDocumentImport,
+  updateImportRow,
+  type DocumentImport,
+  type ImportRowResult,
+  type NewImportRowResult,
+} from '@/lib/db/document-imports';
+import { deleteDocument, downloadDocument, writeDocument } from '@/lib/storage/blob-storage';
+import { recordBackgroundAudit, snapshotDocument } from '@/lib/audit/audit-log';
+import { parseCsv, toCsv } from '@/lib/csv';
+import type { Document } from '@/lib/db/table-storage';
+import { computeContentHash, findDocumentsByContentHash, uploadAndCreateDocument } from './crud';
+import { ensureCategoryPath, validateCategoryPath } from './categories';
+import { getContentType } from '@/lib/storage/content-type';
+import { MAX_FILE_SIZE, validateUploadFile } from './file-validation';
+import { isValidDateString } from './review-dates';
+
+export const MANIFEST_FILE_NAME = 'manifest.csv';
+/** 500MB */
+export const MAX_IMPORT_ARCHIVE_SIZE = 500 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 1000;
+/** 2GB - limit on the total inflated while validating an archive */
+export const MAX_IMPORT_UNCOMPRESSED_SIZE = 2 * 1024 * 1024 * 1024;
+/** 5MB */
+const MAX_MANIFEST_SIZE = 5 * 1024 * 1024;
+// Archives of imports still processing are kept under this blob prefix
+const IMPORT_ARCHIVE_PREFIX = 'imports/';
+// Room for the row in progress when the time budget runs out
+const LEASE_MARGIN_MS = 5 * 60 * 1000;
+
+// Manifest headers are matched case-insensitively, ignoring spaces, '_' and '-'
+const MANIFEST_COLUMNS = {
+  fileName: 'filename',
+  title: 'title',
+  category: 'category',
+  version: 'version',
+  reviewDate: 'reviewdate',
+} as const;
+const REQUIRED_COLUMNS: Array<keyof typeof MANIFEST_COLUMNS> = ['fileName', 'title', 'category', 'version'];
+
+interface ManifestRow {
+  row: number;
+  fileName: string;
+  title: string;
+  category: string;
+  version: string;
+  reviewDate?: string;
+}
+
+interface ValidatedRow {
+  manifest: ManifestRow;
+  error?: string;
+}
+
+export interface ImportResult {
+  documentImport: DocumentImport;
+  rows: ImportRowResult[];
+}
+
+export interface ProcessImportsResult {
+  processed: number;
+  created: number;
+  failed: number;
+  /** Imports with rows left for the next run */
+  pending: number;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]/g, '');
+}
+
+/**
+ * Inflate an entry, giving up as soon as it exceeds maxSize so an oversized
+ * entry (or one whose header understates its size) cannot exhaust memory
+ *
+ * @returns the contents, or null if the entry is larger than maxSize
+ */
+function readEntry(entry: JSZip.JSZipObject, maxSize: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        if (tooLarge) return;
+        size += chunk.length;
+        if (size > maxSize) {
+          // Later events (e.g. JSZip's size mismatch error) are ignored once settled
+          tooLarge = true;
+          chunks.length = 0;
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', (error) => {
+        if (!tooLarge) reject(error);
+      })
+      .on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Find manifest.csv at the archive root, or in the top-level folder many ZIP tools add
+ */
+function findManifest(zip: JSZip): JSZip.JSZipObject | null {
+  const candidates = zip
+    .file(/(^|\/)manifest\.csv$/i)
+    .filter((entry) => !entry.name.startsWith('__MACOSX/'))
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+  const [manifest] = candidates;
+  return manifest && manifest.name.split('/').length <= 2 ? manifest : null;
+}
+
+/**
+ * @returns the manifest rows, or an error message if the manifest cannot be read
+ */
+function parseManifest(text: string): ManifestRow[] | string {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return `${MANIFEST_FILE_NAME} is empty`;
+  }
+
+  const headers = header.map(normalizeHeader);
+  const missing = REQUIRED_COLUMNS.filter((column) => !headers.includes(MANIFEST_COLUMNS[column]));
+  if (missing.length > 0) {
+    return `${MANIFEST_FILE_NAME} is missing the ${missing.map((column) => MANIFEST_COLUMNS[column]).join(', ')} column(s)`;
+  }
+  if (lines.length === 0) {
+    return `${MANIFEST_FILE_NAME} has no rows`;
+  }
+  if (lines.length > MAX_IMPORT_ROWS) {
+    return `An import can contain at most ${MAX_IMPORT_ROWS} rows`;
+  }
+
+  const cell = (cells: string[], column: keyof typeof MANIFEST_COLUMNS) => {
+    const index = headers.indexOf(MANIFEST_COLUMNS[column]);
+    return index >= 0 ? (cells[index] || '').trim() : '';
+  };
+
+  return lines.map((cells, index) => ({
+    row: index + 2,
+    fileName: cell(cells, 'fileName').replace(/^\.?\//, ''),
+    title: cell(cells, 'title'),
+    category: cell(cells, 'category'),
+    version: cell(cells, 'version'),
+    reviewDate: cell(cells, 'reviewDate') || undefined,
+  }));
+}
+
+/**
+ * Check one manifest row against the archive and the library
+ * Reads the file to check its size and hash it, but does not keep it in memory.
+ * Inflation stops at the size limit, so an oversized entry is never held whole.
+ */
+async function validateRow(
+  manifest: ManifestRow,
+  zip: JSZip,
+  baseDir: string,
+  seen: { fileNames: Map<string, number>; hashes: Map<string, number>; uncompressedSize: number },
+  allowDuplicates: boolean
+): Promise<ValidatedRow> {
+  if (!manifest.fileName) {
+    return { manifest, error: 'File name is required' };
+  }
+
+  const earlierRow = seen.fileNames.get(manifest.fileName);
+  if (earlierRow) {
+    return { manifest, error: `File is already listed on row ${earlierRow}` };
+  }
+  seen.fileNames.set(manifest.fileName, manifest.row);
+
+  if (!manifest.title || !manifest.category || !manifest.version) {
+    return { manifest, error: 'Title, category, and version are required' };
+  }
+
+  const categoryError = validateCategoryPath(manifest.category);
+  if (categoryError) {
+    return { manifest, error: categoryError };
+  }
+
+  if (manifest.reviewDate && !isValidDateString(manifest.reviewDate)) {
+    return { manifest, error: 'Review date must be in YYYY-MM-DD format' };
+  }
+
+  const entry = zip.file(baseDir + manifest.fileName);
+  if (!entry) {
+    return { manifest, error: 'File not found in the archive' };
+  }
+
+  // Only the type is checked up front; the size is checked while inflating
+  const typeError = validateUploadFile({ type: getContentType(entry.name), size: 0 });
+  if (typeError) {
+    return { manifest, error: typeError };
+  }
+
+  const buffer = await readEntry(entry, MAX_FILE_SIZE);
+  if (!buffer) {
+    return { manifest, error: 'File size must be less than 100MB' };
+  }
+
+  seen.uncompressedSize += buffer.length;
+  if (seen.uncompressedSize > MAX_IMPORT_UNCOMPRESSED_SIZE) {
+    return { manifest, error: 'The archive is too large once uncompressed' };
+  }
+
+  const contentHash = computeContentHash(buffer);
+  if (!allowDuplicates) {
+    const sameFileRow = seen.hashes.get(contentHash);
+    if (sameFileRow) {
+      return { manifest, error: `Same file as row ${sameFileRow}` };
+    }
+    seen.hashes.set(contentHash, manifest.row);
+
+    const [existing] = await findDocumentsByContentHash(contentHash);
+    if (existing) {
+      return { manifest, error: `This file has already been uploaded as "${existing.title}"` };
+    }
+  }
+
+  return { manifest };
+}
+
+function toRowResult(manifest: ManifestRow, result: Pick<NewImportRowResult, 'status' | 'documentId' | 'error'>): NewImportRowResult {
+  return {
+    row: manifest.row,
+    fileName: manifest.fileName,
+    title: manifest.title,
+    category: manifest.category,
+    version: manifest.version,
+    reviewDate: manifest.reviewDate,
+    ...result,
+  };
+}
+
+/**
+ * Start importing documents from a ZIP archive containing manifest.csv
+ * (columns: filename, title, category, version, review date).
+ *
+ * Every row is validated before anything is created; if any row is invalid the
+ * whole import is rejected. Otherwise the archive is kept in blob storage and
+ * the import is saved as 'processing' with every row 'pending' -
+ * processDocumentImport then creates the documents in the background.
+ * The per-row report is saved either way (see document-imports.ts).
+ *
+ * @returns the result, or an error message if the archive or manifest cannot be read
+ */
+export async function importDocumentArchive(
+  archive: Buffer,
+  options: { archiveName: string; importedBy: string; allowDuplicates?: boolean }
+): Promise<ImportResult | string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    return 'The file is not a valid ZIP archive';
+  }
+
+  const manifestEntry = findManifest(zip);
+  if (!manifestEntry) {
+    return `The archive does not contain ${MANIFEST_FILE_NAME}`;
+  }
+  // File names in the manifest are relative to its folder
+  const baseDir = manifestEntry.name.slice(0, manifestEntry.name.length - MANIFEST_FILE_NAME.length);
+
+  const manifestBuffer = await readEntry(manifestEntry, MAX_MANIFEST_SIZE);
+  if (!manifestBuffer) {
+    return `${MANIFEST_FILE_NAME} must be less than 5MB`;
+  }
+  const manifest = parseManifest(manifestBuffer.toString('utf8'));
+  if (typeof manifest === 'string') {
+    return manifest;
+  }
+
+  const seen = { fileNames: new Map<string, number>(), hashes: new Map<string, number>(), uncompressedSize: 0 };
+  const validated: ValidatedRow[] = [];
+  for (const row of manifest) {
+    validated.push(await validateRow(row, zip, baseDir, seen, !!options.allowDuplicates));
+  }
+
+  const invalidCount = validated.filter((row) => row.error).length;
+  if (invalidCount > 0) {
+    return saveDocumentImport(
+      { archiveName: options.archiveName, state: 'rejected', importedBy: options.importedBy, total: validated.length, succeeded: 0, failed: invalidCount },
+      validated.map(({ manifest: row, error }) => toRowResult(row, error
+        ? { status: 'failed', error }
+        : { status: 'skipped', error: 'Not imported because other rows are invalid' }))
+    );
+  }
+
+  const { blobName } = await writeDocument(`${IMPORT_ARCHIVE_PREFIX}${randomUUID()}.zip`, archive);
+  return saveDocumentImport(
+    {
+      archiveName: options.archiveName,
+      state: 'processing',
+      importedBy: options.importedBy,
+      total: validated.length,
+      succeeded: 0,
+      failed: 0,
+      archiveBlobName: blobName,
+    },
+    validated.map(({ manifest: row }) => toRowResult(row, { status: 'pending' }))
+  );
+}
+
+function isLeased(documentImport: DocumentImport): boolean {
+  return !!documentImport.leaseUntil && new Date(documentImport.leaseUntil).getTime() > Date.now();
+}
+
+/**
+ * Create the documents for an import's pending rows, as drafts through
+ * uploadAndCreateDocument, until the time budget runs out. A failing row does
+ * not stop the rest. The import is leased with a conditional write so another
+ * worker cannot create the same documents, and each row is marked 'importing'
+ * first: a row still in that state on a later run was interrupted and is
+ * failed rather than created twice. Once no rows are left the import is marked
+ * 'completed' and its archive is deleted.
+ *
+ * @returns what was done, or null if the import is not processing or is leased
+ */
+export async function processDocumentImport(
+  id: string,
+  options: { timeBudgetMs?: number } = {}
+): Promise<ProcessImportsResult | null> {
+  const startedAt = Date.now();
+  const timeBudgetMs = options.timeBudgetMs ?? 20 * 1000;
+
+  const current = await getDocumentImport(id);
+  if (!current || current.state !== 'processing' || isLeased(current)) return null;
+  const claimed = await claimDocumentImport(current, new Date(startedAt + timeBudgetMs + LEASE_MARGIN_MS));
+  if (!claimed) return null;
+  let documentImport = claimed;
+
+  const result: ProcessImportsResult = { processed: 1, created: 0, failed: 0, pending: 0 };
+  const pendingRows = (await listImportRows(id)).filter((row) => row.status === 'pending' || row.status === 'importing');
+
+  let zip: JSZip | null = null;
+  let baseDir = '';
+  let remaining = pendingRows.length;
+  try {
+    for (const row of pendingRows) {
+      if (Date.now() - startedAt > timeBudgetMs) break;
+
+      if (!zip) {
+        zip = await JSZip.loadAsync(await downloadDocument(documentImport.archiveBlobName!));
+        const manifestEntry = findManifest(zip);
+        baseDir = manifestEntry ? manifestEntry.name.slice(0, manifestEntry.name.length - MANIFEST_FILE_NAME.length) : '';
+      }
+
+      let created: Document | string;
+      if (row.status === 'importing') {
+        created = 'The import was interrupted while creating this document - check the library before importing it again';
+      } else {
+        await updateImportRow(id, row.row, { status: 'importing' });
+        created = await importRow(row, zip, baseDir);
+      }
+      remaining--;
+      if (typeof created === 'string') {
+        await updateImportRow(id, row.row, { status: 'failed', error: created });
+        documentImport = await updateDocumentImport(id, { failed: documentImport.failed + 1 });
+        result.failed++;
+        continue;
+      }
+
+      await updateImportRow(id, row.row, { status: 'created', documentId: created.id });
+      documentImport = await updateDocumentImport(id, { succeeded: documentImport.succeeded + 1 });
+      result.created++;
+      await recordBackgroundAudit(documentImport.importedBy, {
+        action: 'document.upload',
+        documentId: created.id,
+        after: snapshotDocument(created),
+        details: { fileName: created.fileName, contentHash: created.contentHash, importId: id },
+      });
+    }
+  } catch (error) {
+    await updateDocumentImport(id, { leaseUntil: undefined });
+    throw error;
+  }
+
+  if (remaining > 0) {
+    // Release the lease so the next run can pick up the remaining rows
+    await updateDocumentImport(id, { leaseUntil: undefined });
+    result.pending++;
+    return result;
+  }
+
+  await updateDocumentImport(id, {
+    state: 'completed',
+    archiveBlobName: undefined,
+    leaseUntil: undefined,
+    completedAt: new Date(),
+  });
+  if (documentImport.archiveBlobName) {
+    await deleteDocument(documentImport.archiveBlobName);
+  }
+  await recordBackgroundAudit(documentImport.importedBy, {
+    action: 'document.import',
+    details: {
+      importId: id,
+      archiveName: documentImport.archiveName,
+      state: 'completed',
+      total: documentImport.total,
+      succeeded: documentImport.succeeded,
+      failed: documentImport.failed,
+    },
+  });
+  return result;
+}
+
+/**
+ * Create one row's document from the archive
+ * @returns the document, or an error message for the row report
+ */
+async function importRow(row: ImportRowResult, zip: JSZip, baseDir: string): Promise<Document | string> {
+  try {
+    const entry = zip.file(baseDir + row.fileName);
+    if (!entry) {
+      return 'File not found in the archive';
+    }
+    const buffer = await readEntry(entry, MAX_FILE_SIZE);
+    if (!buffer) {
+      return 'File size must be less than 100MB';
+    }
+
+    const category = await ensureCategoryPath(row.category);
+    return await uploadAndCreateDocument(
+      buffer,
+      path.posix.basename(entry.name),
+      { title: row.title, category, version: row.version, reviewDate: row.reviewDate }
+    );
+  } catch (error) {
+    console.error(`Bulk import failed for manifest row ${row.row}:`, error);
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * Advance every import still processing, oldest first, within the time budget
+ */
+export async function processDocumentImports(
+  options: { timeBudgetMs?: number } = {}
+): Promise<ProcessImportsResult> {
+  const startedAt = Date.now();
+  const timeBudgetMs = options.timeBudgetMs ?? 20 * 1000;
+  const result: ProcessImportsResult = { processed: 0, created: 0, failed: 0, pending: 0 };
+
+  const imports = (await listDocumentImports('processing')).reverse();
+  for (const documentImport of imports) {
+    const remainingMs = timeBudgetMs - (Date.now() - startedAt);
+    if (remainingMs <= 0) {
+      result.pending++;
+      continue;
+    }
+
+    const processed = await processDocumentImport(documentImport.id, { timeBudgetMs: remainingMs });
+    if (!processed) continue;
+    result.processed += processed.processed;
+    result.created += processed.created;
+    result.failed += processed.failed;
+    result.pending += processed.pending;
+  }
+
+  return result;
+}
+
+/**
+ * Blob names of archives kept for imports still processing
+ */
+export async function listImportArchiveBlobNames(): Promise<string[]> {
+  const imports = await listDocumentImports('processing');
+  return imports.flatMap((documentImport) => documentImport.archiveBlobName ? [documentImport.archiveBlobName] : []);
+}
+
+const REPORT_COLUMNS: Array<keyof ImportRowResult> = [
+  'row',
+  'fileName',
+  'title',
+  'category',
+  'version',
+  'reviewDate',
+  'status',
+  'documentId',
+  'error',
+];
+
+export function importRowsToCsv(rows: ImportRowResult[]): string {
+  return toCsv(REPORT_COLUMNS, rows.map((row) => REPORT_COLUMNS.map((column) => row[column])));
+}
@@ -0,0 +1,322 @@
+import {
+  createCategory,
+  deleteCategory,
+  listCategories,
+  updateCategory,
+  type Category,
+} from '@/lib/db/categories';
+import { getAllDocuments, updateDocument } from '@/lib/db/table-storage';
+import { syncDocumentMetadata } from './crud';
+
+/** Separates levels in a category path, e.g. "Renal > Peritoneal Dialysis" */
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+const MAX_CATEGORY_NAME_LENGTH = 100;
+
+export interface CategorySummary {
+  id: string;
+  name: string;
+  parentId?: string;
+  /** Full path stored on documents */
+  path: string;
+  /** 0 for top-level categories */
+  depth: number;
+  /** Current documents filed directly under this category */
+  documentCount: number;
+  /** Current documents under this category and its subcategories */
+  totalCount: number;
+}
+
+export interface CategoryOverview {
+  categories: CategorySummary[];
+  /** Categories used by documents that are not in the taxonomy (older free-text entries) */
+  unmanaged: Array<{ path: string; documentCount: number }>;
+}
+
+/**
+ * @returns an error message, or null if the name is acceptable
+ */
+export function validateCategoryName(name: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Category name is required';
+  }
+  if (name.trim().length > MAX_CATEGORY_NAME_LENGTH) {
+    return `Category name must be at most ${MAX_CATEGORY_NAME_LENGTH} characters`;
+  }
+  if (name.includes('>')) {
+    return 'Category name cannot contain ">" - create a subcategory instead';
+  }
+  return null;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function isInSubtree(path: string, rootPath: string): boolean {
+  return path === rootPath || path.startsWith(rootPath + CATEGORY_PATH_SEPARATOR);
+}
+
+/**
+ * Split a typed category path into trimmed, non-empty segments
+ */
+export function splitCategoryPath(path: string): string[] {
+  return path.split('>').map((segment) => segment.trim().replace(/\s+/g, ' ')).filter(Boolean);
+}
+
+/**
+ * @returns an error message, or null if every level of the path is a valid name
+ */
+export function validateCategoryPath(path: unknown): string | null {
+  const segments = typeof path === 'string' ? splitCategoryPath(path) : [];
+  if (segments.length === 0) return 'Category is required';
+  return segments.map(validateCategoryName).find(Boolean) || null;
+}
+
+function getCategoryPath(category: Category, categoriesById: Map<string, Category>): string {
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let current: Category | undefined = category;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId ? categoriesById.get(current.parentId) : undefined;
+  }
+  return names.join(CATEGORY_PATH_SEPARATOR);
+}
+
+/**
+ * Every category with its full path and document counts, sorted by path
+ * Counts cover current revisions outside the recycle bin
+ */
+export async function getCategoryOverview(): Promise<CategoryOverview> {
+  const [categories, documents] = await Promise.all([listCategories(), getAllDocuments()]);
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+
+  const countsByPath = new Map<string, number>();
+  for (const doc of documents) {
+    if (doc.deletedAt || doc.isCurrent === false) continue;
+    countsByPath.set(doc.category, (countsByPath.get(doc.category) || 0) + 1);
+  }
+
+  const summaries = categories
+    .map((category) => {
+      const path = getCategoryPath(category, categoriesById);
+      return {
+        id: category.id,
+        name: category.name,
+        parentId: category.parentId,
+        path,
+        depth: path.split(CATEGORY_PATH_SEPARATOR).length - 1,
+        documentCount: countsByPath.get(path) || 0,
+        totalCount: 0,
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const summary of summaries) {
+    summary.totalCount = [...countsByPath]
+      .filter(([path]) => isInSubtree(path, summary.path))
+      .reduce((total, [, count]) => total + count, 0);
+  }
+
+  const managedPaths = new Set(summaries.map((summary) => summary.path));
+  const unmanaged = [...countsByPath]
+    .filter(([path]) => !managedPaths.has(path))
+    .map(([path, documentCount]) => ({ path, documentCount }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return { categories: summaries, unmanaged };
+}
+
+/**
+ * Check where a category would sit in the tree
+ * @param options.excludeId - The category being renamed or moved
+ * @returns an error message, or null if the placement is valid
+ */
+export async function checkCategoryPlacement(options: {
+  name: string;
+  parentId?: string;
+  excludeId?: string;
+}): Promise<string | null> {
+  const categories = await listCategories();
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+
+  if (options.parentId) {
+    const parent = categoriesById.get(options.parentId);
+    if (!parent) return 'Parent category not found';
+
+    const excluded = options.excludeId ? categoriesById.get(options.excludeId) : undefined;
+    if (excluded && isInSubtree(
+      getCategoryPath(parent, categoriesById),
+      getCategoryPath(excluded, categoriesById)
+    )) {
+      return 'A category cannot be moved under itself';
+    }
+  }
+
+  const clash = categories.find((category) =>
+    category.id !== options.excludeId &&
+    category.parentId === options.parentId &&
+    sameName(category.name, options.name)
+  );
+  return clash ? `A category named "${clash.name}" already exists here` : null;
+}
+
+export async function addCategory(name: string, parentId?: string): Promise<Category> {
+  return createCategory({ name: name.trim(), parentId });
+}
+
+/**
+ * Resolve a typed category path to its managed spelling, creating any missing
+ * levels, so free-text categories join the taxonomy instead of drifting from it
+ */
+export async function ensureCategoryPath(path: string): Promise<string> {
+  const segments = splitCategoryPath(path);
+  if (segments.length === 0) throw new Error('Category is required');
+
+  const categories = await listCategories();
+  const names: string[] = [];
+  let parentId: string | undefined;
+
+  for (const segment of segments) {
+    let category = categories.find((existing) =>
+      existing.parentId === parentId && sameName(existing.name, segment)
+    );
+    if (!category) {
+      category = await createCategory({ name: segment, parentId });
+      categories.push(category);
+    }
+    names.push(category.name);
+    parentId = category.id;
+  }
+
+  return names.join(CATEGORY_PATH_SEPARATOR);
+}
+
+/**
+ * Move every document filed under one path (and its subcategories) to another,
+ * updating blob metadata and the search index entry
+ * @returns IDs of the documents that changed
+ */
+async function recategorizeDocuments(
+  fromPath: string,
+  toPath: string,
+  options: { includeSubcategories: boolean }
+): Promise<string[]> {
+  const updated: string[] = [];
+
+  for (const doc of await getAllDocuments()) {
+    const matches = options.includeSubcategories
+      ? isInSubtree(doc.category, fromPath)
+      : doc.category === fromPath;
+    if (!matches) continue;
+
+    const category = toPath + doc.category.slice(fromPath.length);
+    const changed = await updateDocument(doc.id, { category });
+    try {
+      await syncDocumentMetadata(changed);
+    } catch (error) {
+      // The table row is the source of truth; a reindex picks the change up later
+      console.error(`Failed to sync metadata for document ${doc.id}:`, error);
+    }
+    updated.push(doc.id);
+  }
+
+  return updated;
+}
+
+/**
+ * Rename and/or move a category; documents under it follow the new path
+ */
+export async function changeCategory(
+  id: string,
+  changes: { name?: string; parentId?: string | null }
+): Promise<{ category: Category; updatedDocuments: string[] }> {
+  const categories = await listCategories();
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+  const existing = categoriesById.get(id);
+  if (!existing) throw new Error('Category not found');
+
+  const oldPath = getCategoryPath(existing, categoriesById);
+  const category = await updateCategory(id, {
+    name: changes.name?.trim() ?? existing.name,
+    parentId: changes.parentId === undefined ? existing.parentId : changes.parentId || undefined,
+  });
+  categoriesById.set(id, category);
+
+  const newPath = getCategoryPath(category, categoriesById);
+  const updatedDocuments = newPath === oldPath
+    ? []
+    : await recategorizeDocuments(oldPath, newPath, { includeSubcategories: true });
+  return { category, updatedDocuments };
+}
+
+/**
+ * Merge one category into another: its documents move to the target, its
+ * subcategories move under the target (merging with same-named ones) and the
+ * source category is deleted
+ */
+export async function mergeCategory(
+  sourceId: string,
+  targetId: string
+): Promise<{ updatedDocuments: string[] }> {
+  const categories = await listCategories();
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+  const source = categoriesById.get(sourceId);
+  const target = categoriesById.get(targetId);
+  if (!source || !target) throw new Error('Category not found');
+
+  const sourcePath = getCategoryPath(source, categoriesById);
+  const targetPath = getCategoryPath(target, categoriesById);
+  if (isInSubtree(targetPath, sourcePath)) {
+    throw new Error('A category cannot be merged into itself or its subcategories');
+  }
+
+  const childrenOf = (parentId: string) => categories.filter((category) => category.parentId === parentId);
+
+  const mergeInto = async (from: Category, fromPath: string, into: Category, intoPath: string) => {
+    const updated: string[] = [];
+    for (const child of childrenOf(from.id)) {
+      const childFromPath = fromPath + CATEGORY_PATH_SEPARATOR + child.name;
+      const clash = childrenOf(into.id).find((existing) => sameName(existing.name, child.name));
+      if (clash) {
+        updated.push(...await mergeInto(child, childFromPath, clash, intoPath + CATEGORY_PATH_SEPARATOR + clash.name));
+      } else {
+        child.parentId = into.id;
+        await updateCategory(child.id, { parentId: into.id });
+        updated.push(...await recategorizeDocuments(
+          childFromPath,
+          intoPath + CATEGORY_PATH_SEPARATOR + child.name,
+          { includeSubcategories: true }
+        ));
+      }
+    }
+    updated.push(...await recategorizeDocuments(fromPath, intoPath, { includeSubcategories: false }));
+    await deleteCategory(from.id);
+    return updated;
+  };
+
+  return { updatedDocuments: await mergeInto(source, sourcePath, target, targetPath) };
+}
+
+/**
+ * Delete an empty category
+ * @returns an error message if it still has subcategories or documents
+ */
+export async function removeCategory(id: string): Promise<string | null> {
+  const overview = await getCategoryOverview();
+  const summary = overview.categories.find((category) => category.id === id);
+  if (!summary) return 'Category not found';
+
+  if (overview.categories.some((category) => category.parentId === id)) {
+    return 'Move or delete the subcategories first';
+  }
+
+  const documents = await getAllDocuments();
+  if (documents.some((doc) => doc.category === summary.path)) {
+    return 'Category still has documents - merge it into another category instead';
+  }
+
+  await deleteCategory(id);
+  return null;
+}
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import {
   createDocument as createDoc,
   getAllDocuments as getAllDocs,
@@ -7,15 +8,19 @@ import {
   type Document,
 } from '@/lib/db/table-storage';
 import {
-  uploadDocument as uploadToAzure,
-  deleteDocument as deleteFromAzure,
+  uploadDocument as uploadToStorage,
+  deleteDocument as deleteFromStorage,
   getDocumentSasUrl,
-} from '@/lib/storage/azure-storage';
-import {
-  uploadDocumentToGemini,
-  deleteDocumentFromGemini,
-  type GeminiUploadResult,
-} from '@/lib/gemini/document-indexing';
+  documentExists,
+  updateDocumentMetadata as updateBlobMetadata,
+} from '@/lib/storage/blob-storage';
+import { getSearchProvider } from '@/lib/search/search-provider';
+import { deleteIndexingJob } from '@/lib/db/indexing-jobs';
+import { enqueueIndexingJob } from './indexing-queue';
+import { startPolicy, addRevision, detachRevision } from './versions';
+import { getPublicationState } from './publication-states';
+import { getDocumentTags } from './tags';
+import { getReplacedFiles } from './file-history';
 
 export async function createDocument(data: Omit<Document, 'partitionKey' | 'rowKey' | 'id' | 'createdAt' | 'timestamp'>): Promise<Document> {
   return createDoc(data);
@@ -31,28 +36,66 @@ export async function getDocumentById(id: string): Promise<Document | null> {
 
 export async function updateDocumentStatus(
   id: string,
-  status: 'processing' | 'ready' | 'failed',
+  status: Document['status'],
   errorMessage?: string
 ): Promise<Document> {
   return updateDoc(id, { status, errorMessage });
 }
 
-export async function deleteDocument(id: string): Promise<void> {
+/**
+ * Permanently delete a document: search index entry, blob and table row.
+ * User-facing deletes go through the recycle bin first (see trash.ts).
+ */
+export async function purgeDocument(id: string): Promise<void> {
   const doc = await getDocById(id);
   if (doc) {
-    // Delete from Azure Blob Storage
-    await deleteFromAzure(doc.blobName);
-
-    // Delete from Gemini (if indexed)
+    // Delete from the search index first (if indexed) - if this fails the
+    // document is left intact so the delete can be retried
     if (doc.geminiDocumentId) {
-      await deleteDocumentFromGemini(doc.geminiDocumentId);
+      await getSearchProvider().deleteDocument(doc.geminiDocumentId);
+    }
+
+    // Delete from blob storage, including files replaced in place
+    await deleteFromStorage(doc.blobName);
+    for (const replaced of getReplacedFiles(doc)) {
+      await deleteFromStorage(replaced.blobName);
+    }
+
+    // Relink the policy's revision chain; if this was the current revision
+    // the previous one takes over and goes back into the search index
+    const promoted = await detachRevision(doc);
+    if (
+      promoted &&
+      !promoted.geminiDocumentId &&
+      promoted.status !== 'processing' &&
+      getPublicationState(promoted) === 'published'
+    ) {
+      await enqueueIndexingJob(promoted);
     }
   }
 
   // Delete from Table Storage
+  await deleteIndexingJob(id);
   await deleteDoc(id);
 }
 
+/**
+ * SHA-256 of a file's content (hex)
+ */
+export function computeContentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Documents outside the recycle bin whose file has this content hash, current revisions first
+ */
+export async function findDocumentsByContentHash(contentHash: string): Promise<Document[]> {
+  const docs = await getAllDocs({ contentHash });
+  return docs
+    .filter((doc) => !doc.deletedAt)
+    .sort((a, b) => Number(b.isCurrent !== false) - Number(a.isCurrent !== false));
+}
+
 export async function uploadAndCreateDocument(
   file: File | Buffer,
   fileName: string,
@@ -60,10 +103,22 @@ export async function uploadAndCreateDocument(
     title: string;
     category: string;
     version: string;
-  }
+    effectiveDate?: string;
+    reviewDate?: string;
+    owner?: string;
+  },
+  options: {
+    /** Previous revision this upload replaces */
+    supersedes?: Document;
+    /** Hash already computed by the caller (see computeContentHash) */
+    contentHash?: string;
+  } = {}
 ): Promise<Document> {
-  // Step 1: Upload to Azure Blob Storage
-  const { uri, blobName } = await uploadToAzure(file, fileName, {
+  const buffer = file instanceof File ? Buffer.from(await file.arrayBuffer()) : file;
+  const contentHash = options.contentHash || computeContentHash(buffer);
+
+  // Step 1: Upload to blob storage
+  const { uri, blobName } = await uploadToStorage(file, fileName, {
     title: metadata.title,
     category: metadata.category,
     version: metadata.version,
@@ -73,48 +128,169 @@ export async function uploadAndCreateDocument(
   const fileSizeFormatted = formatFileSize(fileSize);
   const fileType = fileName.split('.').pop()?.toLowerCase() || 'unknown';
 
-  // Step 2: Create database record with status='processing'
+  // Step 2: Create database record as an unindexed draft - it is indexed
+  // once published through the workflow (see publication.ts)
   const document = await createDoc({
+    contentHash,
     title: metadata.title,
     category: metadata.category,
     version: metadata.version,
-    status: 'processing',
+    status: 'unindexed',
+    publicationState: 'draft',
+    effectiveDate: metadata.effectiveDate,
+    reviewDate: metadata.reviewDate,
+    owner: metadata.owner,
     storageUri: uri,
     blobName,
+    fileName,
     fileSize: fileSizeFormatted,
     fileType,
   });
 
-  // Step 3: Convert file to Buffer if needed
+  // Step 3: Record the revision in its policy's version history
+  return options.supersedes
+    ? addRevision(options.supersedes, document)
+    : startPolicy(document);
+}
+
+/**
+ * Upload a corrected file under an existing document, keeping its ID and links.
+ * The previous blob is kept as a prior revision; published documents are
+ * queued for indexing and keep their old search entry until the new one is ready.
+ */
+export async function replaceDocumentFile(
+  id: string,
+  file: File | Buffer,
+  fileName: string,
+  actor: string
+): Promise<Document> {
+  const doc = await getDocById(id);
+  if (!doc) throw new Error('Document not found');
+
+  const tags = getDocumentTags(doc);
+  const { uri, blobName } = await uploadToStorage(file, fileName, {
+    title: doc.title,
+    category: doc.category,
+    version: doc.version,
+    ...(tags.length > 0 && { tags: tags.join(',') }),
+    ...(doc.owner && { owner: doc.owner }),
+  });
+
+  const fileSize = file instanceof File ? file.size : (file as Buffer).length;
   const buffer = file instanceof File ? Buffer.from(await file.arrayBuffer()) : file;
+  const replacedFiles = [
+    ...getReplacedFiles(doc),
+    {
+      blobName: doc.blobName,
+      fileName: doc.fileName,
+      fileSize: doc.fileSize,
+      fileType: doc.fileType,
+      replacedAt: new Date().toISOString(),
+      replacedBy: actor,
+    },
+  ];
+
+  const updated = await updateDoc(id, {
+    storageUri: uri,
+    blobName,
+    fileName,
+    fileSize: formatFileSize(fileSize),
+    fileType: fileName.split('.').pop()?.toLowerCase() || 'unknown',
+    contentHash: computeContentHash(buffer),
+    replacedFiles: JSON.stringify(replacedFiles),
+  });
+
+  if (!updated.deletedAt && updated.isCurrent !== false && getPublicationState(updated) === 'published') {
+    return enqueueIndexingJob(updated, fileName);
+  }
+  return updated;
+}
+
+/**
+ * Re-run indexing for a single document (e.g. after a failure)
+ * Removes any stale search index entry and queues a fresh indexing job
+ */
+export async function reindexDocument(id: string): Promise<Document> {
+  const doc = await getDocById(id);
+  if (!doc) throw new Error('Document not found');
+
+  if (!(await documentExists(doc.blobName))) {
+    throw new Error('Document file is missing from storage');
+  }
+
+  if (doc.geminiDocumentId) {
+    await getSearchProvider().deleteDocument(doc.geminiDocumentId);
+  }
+
+  const cleared = await updateDoc(id, {
+    geminiDocumentId: undefined,
+    geminiFileSearchStoreName: undefined,
+  });
+
+  return enqueueIndexingJob(cleared);
+}
+
+/**
+ * Queue reindexing for many documents, e.g. after rotating the File Search store
+ * Documents already processing, unpublished or trashed documents and superseded revisions are skipped
+ * @param status - Only reindex documents with this status
+ */
+export async function reindexAllDocuments(
+  status?: Document['status']
+): Promise<{ queued: string[]; skipped: string[]; errors: Array<{ id: string; error: string }> }> {
+  const docs = await getAllDocs();
+  const result = {
+    queued: [] as string[],
+    skipped: [] as string[],
+    errors: [] as Array<{ id: string; error: string }>,
+  };
+
+  for (const doc of docs) {
+    if (
+      doc.status === 'processing' ||
+      doc.isCurrent === false ||
+      !!doc.deletedAt ||
+      getPublicationState(doc) !== 'published' ||
+      (status && doc.status !== status)
+    ) {
+      result.skipped.push(doc.id);
+      continue;
+    }
+
+    try {
+      await reindexDocument(doc.id);
+      result.queued.push(doc.id);
+    } catch (error) {
+      result.errors.push({
+        id: doc.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Push a document's title, category, version, tags and owner to its blob metadata and search index entry.
+ * Indexed entries cannot be edited in place, so the document is reindexed with the new metadata;
+ * the old entry stays searchable until the indexing job swaps in the new one.
+ */
+export async function syncDocumentMetadata(doc: Document): Promise<Document> {
+  const tags = getDocumentTags(doc);
+  await updateBlobMetadata(doc.blobName, {
+    title: doc.title,
+    category: doc.category,
+    version: doc.version,
+    ...(tags.length > 0 && { tags: tags.join(',') }),
+    ...(doc.owner && { owner: doc.owner }),
+  });
 
-  try {
-    // Step 4: Upload to Gemini File Search Store (synchronous - user waits)
-    const geminiResult: GeminiUploadResult = await uploadDocumentToGemini(
-      buffer,
-      fileName,
-      metadata
-    );
-
-    // Step 5: Update document with Gemini IDs and mark as 'ready'
-    const updatedDoc = await updateDoc(document.id, {
-      geminiDocumentId: geminiResult.geminiDocumentId,
-      geminiFileSearchStoreName: geminiResult.geminiFileSearchStoreName,
-      status: 'ready',
-    });
-
-    return updatedDoc;
-  } catch (error) {
-    // Step 6: Mark as 'failed' if Gemini upload fails
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    await updateDoc(document.id, {
-      status: 'failed',
-      errorMessage: `Gemini upload failed: ${errorMessage}`,
-    });
-
-    // Re-throw so API can return 500
-    throw error;
+  // A queued job reads the row when it starts, so only finished entries need replacing
+  if (doc.geminiDocumentId && doc.status !== 'processing') {
+    return enqueueIndexingJob(doc);
   }
+  return doc;
 }
 
 export async function getDocumentDownloadUrl(id: string, expiresInMinutes: number = 60): Promise<string> {
@@ -0,0 +1,146 @@
+import { getAllDocuments, listDocumentsPage, listRecentDocumentsPage, type Document } from '@/lib/db/table-storage';
+import type { EntityFilter } from '@/lib/db/entity-store';
+import type { Role } from '@/lib/auth/roles';
+import { canViewDocument } from './publication-states';
+import { getDocumentTags } from './tags';
+
+export type DocumentSortField = 'createdAt' | 'title' | 'category' | 'version' | 'status' | 'reviewDate';
+
+export interface DocumentSort {
+  field: DocumentSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface DocumentQuery {
+  category?: string;
+  status?: Document['status'];
+  /** Case-insensitive text matched against title, category, version, tags and owner */
+  q?: string;
+  sort?: DocumentSort;
+  pageSize: number;
+  continuationToken?: string;
+}
+
+export interface DocumentQueryPage {
+  documents: Document[];
+  continuationToken?: string;
+  /** Matching documents across all pages; unknown when paging through the store */
+  total?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+const SORT_FIELDS: DocumentSortField[] = ['createdAt', 'title', 'category', 'version', 'status', 'reviewDate'];
+const STATUSES: Array<Document['status']> = ['processing', 'ready', 'failed', 'unindexed'];
+// Continuation tokens say which strategy produced them
+const STORE_TOKEN_PREFIX = 'page:';
+const RECENT_TOKEN_PREFIX = 'recent:';
+const OFFSET_TOKEN_PREFIX = 'offset:';
+
+/**
+ * Read ?category=&status=&q=&sort=&pageSize=&continuationToken=
+ * sort is a field name, prefixed with "-" for descending (default "-createdAt")
+ * @returns the query, or an error message
+ */
+export function parseDocumentQuery(searchParams: URLSearchParams): DocumentQuery | string {
+  const status = searchParams.get('status') || undefined;
+  if (status && !STATUSES.includes(status as Document['status'])) {
+    return `Unknown status: ${status}`;
+  }
+
+  const sortParam = searchParams.get('sort') || '-createdAt';
+  const field = sortParam.replace(/^-/, '') as DocumentSortField;
+  if (!SORT_FIELDS.includes(field)) {
+    return `Unknown sort field: ${field}`;
+  }
+
+  const pageSize = parseInt(searchParams.get('pageSize') || '', 10);
+  return {
+    category: searchParams.get('category') || undefined,
+    status: status as Document['status'] | undefined,
+    q: searchParams.get('q')?.trim() || undefined,
+    sort: { field, direction: sortParam.startsWith('-') ? 'desc' : 'asc' },
+    pageSize: Math.min(pageSize > 0 ? pageSize : DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    continuationToken: searchParams.get('continuationToken') || undefined,
+  };
+}
+
+function matchesText(document: Document, q: string): boolean {
+  const needle = q.toLowerCase();
+  return [document.title, document.category, document.version, document.owner || '', ...getDocumentTags(document)]
+    .some((value) => value.toLowerCase().includes(needle));
+}
+
+function compareDocuments(a: Document, b: Document, field: DocumentSortField): number {
+  if (field === 'createdAt') {
+    return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  }
+  // Documents without a review date sort last in ascending order
+  if (field === 'reviewDate' && !a.reviewDate !== !b.reviewDate) {
+    return a.reviewDate ? -1 : 1;
+  }
+  return (a[field] || '').localeCompare(b[field] || '', undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * One page of the documents a role may see (trashed documents are never listed).
+ *
+ * Category and status are filtered by the store. Listings by upload date
+ * without a text query page through the store with its continuation token
+ * (newest first through the recent-document index); any other sort or a text
+ * query needs every match in memory and pages by offset.
+ */
+export async function queryDocuments(query: DocumentQuery, role: Role | undefined): Promise<DocumentQueryPage> {
+  const filter: EntityFilter = {};
+  if (query.category) filter.category = query.category;
+  if (query.status) filter.status = query.status;
+
+  const isVisible = (doc: Document) => !doc.deletedAt && canViewDocument(doc, role);
+  const sort = query.sort || { field: 'createdAt', direction: 'desc' };
+
+  // Document IDs are upload timestamps, so the store's key order is oldest first
+  if (!query.q && sort.field === 'createdAt') {
+    const [listPage, tokenPrefix] = sort.direction === 'asc'
+      ? [listDocumentsPage, STORE_TOKEN_PREFIX]
+      : [listRecentDocumentsPage, RECENT_TOKEN_PREFIX];
+    const documents: Document[] = [];
+    let storeToken = query.continuationToken?.startsWith(tokenPrefix)
+      ? query.continuationToken.slice(tokenPrefix.length)
+      : undefined;
+
+    // Ask only for what is still missing so the returned token never skips rows
+    do {
+      const page = await listPage({
+        filter,
+        pageSize: query.pageSize - documents.length,
+        continuationToken: storeToken,
+      });
+      documents.push(...page.entities.filter(isVisible));
+      storeToken = page.continuationToken;
+    } while (storeToken && documents.length < query.pageSize);
+
+    return {
+      documents,
+      continuationToken: storeToken ? tokenPrefix + storeToken : undefined,
+    };
+  }
+
+  const matches = (await getAllDocuments(filter))
+    .filter(isVisible)
+    .filter((doc) => !query.q || matchesText(doc, query.q))
+    .sort((a, b) => {
+      const order = compareDocuments(a, b, sort.field);
+      return sort.direction === 'asc' ? order : -order;
+    });
+
+  const offset = query.continuationToken?.startsWith(OFFSET_TOKEN_PREFIX)
+    ? parseInt(query.continuationToken.slice(OFFSET_TOKEN_PREFIX.length), 10) || 0
+    : 0;
+  const next = offset + query.pageSize;
+
+  return {
+    documents: matches.slice(offset, next),
+    continuationToken: next < matches.length ? OFFSET_TOKEN_PREFIX + next : undefined,
+    total: matches.length,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * A file that was replaced in place; its blob is kept as a prior revision
+ */
+export interface ReplacedFile {
+  blobName: string;
+  fileName?: string;
+  fileSize?: string;
+  fileType?: string;
+  /** ISO timestamp */
+  replacedAt: string;
+  replacedBy: string;
+}
+
+/**
+ * Files replaced on a document row (a JSON array string), oldest first
+ */
+export function getReplacedFiles(document: { replacedFiles?: string }): ReplacedFile[] {
+  if (!document.replacedFiles) return [];
+  try {
+    const files = JSON.parse(document.replacedFiles);
+    return Array.isArray(files) ? files : [];
+  } catch {
+    return [];
+  }
+}
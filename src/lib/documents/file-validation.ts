@@ -0,0 +1,21 @@
+export const ALLOWED_FILE_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+];
+
+/** 100MB */
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+/**
+ * @returns an error message, or null if the file can be uploaded
+ */
+export function validateUploadFile(file: { type: string; size: number }): string | null {
+  if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+    return 'Only PDF and DOCX files are allowed';
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return 'File size must be less than 100MB';
+  }
+  return null;
+}
@@ -0,0 +1,245 @@
+import { getDocumentById, updateDocument, type Document } from '@/lib/db/table-storage';
+import {
+  saveIndexingJob,
+  getIndexingJob,
+  updateIndexingJob,
+  claimIndexingJob,
+  listIndexingJobs,
+  type IndexingJob,
+} from '@/lib/db/indexing-jobs';
+import { downloadDocument } from '@/lib/storage/blob-storage';
+import { getSearchProvider, type IndexingProgress } from '@/lib/search/search-provider';
+import { retireSupersededRevision } from './versions';
+import { getPublicationState } from './publication-states';
+import { getDocumentTags } from './tags';
+
+const MAX_ATTEMPTS = 3;
+// How long to wait between polls of a running provider operation
+const POLL_INTERVAL_MS = 5 * 1000;
+// Base delay before retrying a failed attempt (doubles each attempt)
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// Give up on a provider operation that has not finished after this long
+const OPERATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface ProcessJobsResult {
+  processed: number;
+  completed: number;
+  failed: number;
+  pending: number;
+}
+
+/**
+ * Original upload file name (older rows only have it embedded in the blob name)
+ */
+function getOriginalFileName(document: Document): string {
+  return document.fileName || document.blobName.replace(/^\d+-/, '');
+}
+
+/**
+ * Queue a document for background indexing
+ * The document stays in 'processing' until a worker completes the job
+ */
+export async function enqueueIndexingJob(
+  document: Document,
+  fileName: string = getOriginalFileName(document)
+): Promise<Document> {
+  const now = new Date();
+  await saveIndexingJob({
+    documentId: document.id,
+    fileName,
+    state: 'queued',
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    nextRunAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return updateDocument(document.id, {
+    status: 'processing',
+    errorMessage: undefined,
+    indexingAttempts: 0,
+    indexingLastError: undefined,
+    indexingQueuedAt: now,
+    indexingStartedAt: undefined,
+    indexingCompletedAt: undefined,
+  });
+}
+
+function isDue(job: IndexingJob): boolean {
+  return (job.state === 'queued' || job.state === 'running') && new Date(job.nextRunAt).getTime() <= Date.now();
+}
+
+/**
+ * Advance every due job by one step
+ * @param options.documentId - Only process the job for this document
+ * @param options.timeBudgetMs - Stop picking up new jobs after this long
+ */
+export async function processIndexingJobs(
+  options: { documentId?: string; timeBudgetMs?: number } = {}
+): Promise<ProcessJobsResult> {
+  const startedAt = Date.now();
+  const timeBudgetMs = options.timeBudgetMs ?? 20 * 1000;
+  const result: ProcessJobsResult = { processed: 0, completed: 0, failed: 0, pending: 0 };
+
+  let jobs: IndexingJob[];
+  if (options.documentId) {
+    const job = await getIndexingJob(options.documentId);
+    jobs = job ? [job] : [];
+  } else {
+    jobs = [...(await listIndexingJobs('queued')), ...(await listIndexingJobs('running'))];
+  }
+
+  const dueJobs = jobs
+    .filter(isDue)
+    .sort((a, b) => new Date(a.nextRunAt).getTime() - new Date(b.nextRunAt).getTime());
+
+  for (const job of dueJobs) {
+    if (Date.now() - startedAt > timeBudgetMs) {
+      result.pending++;
+      continue;
+    }
+
+    // Another worker may have claimed the job since the list was read
+    const current = await getIndexingJob(job.documentId);
+    if (!current || !isDue(current)) continue;
+
+    const state = await advanceJob(current);
+    if (!state) continue;
+    result.processed++;
+    if (state === 'completed') result.completed++;
+    else if (state === 'failed') result.failed++;
+    else result.pending++;
+  }
+
+  return result;
+}
+
+/**
+ * Run one step of a job: start indexing, or poll a running operation
+ * @returns the job's new state, or null if another worker claimed it first
+ */
+async function advanceJob(job: IndexingJob): Promise<IndexingJob['state'] | null> {
+  const document = await getDocumentById(job.documentId);
+  if (!document) {
+    // Document was deleted while queued
+    await updateIndexingJob(job.documentId, { state: 'failed', lastError: 'Document no longer exists' });
+    return 'failed';
+  }
+
+  if (getPublicationState(document) !== 'published' || document.deletedAt) {
+    // Unpublished or trashed while queued - only live documents are indexed
+    await updateIndexingJob(job.documentId, { state: 'failed', lastError: 'Document is not published' });
+    await updateDocument(document.id, { status: 'unindexed' });
+    return 'failed';
+  }
+
+  try {
+    let progress: IndexingProgress;
+
+    if (job.operationName) {
+      const runningFor = Date.now() - new Date(job.startedAt || job.updatedAt).getTime();
+      if (runningFor > OPERATION_TIMEOUT_MS) {
+        throw new Error('Indexing timeout - operation did not complete in 10 minutes');
+      }
+      progress = await getSearchProvider().checkIndexing(job.operationName);
+    } else {
+      // Claim the job before uploading: the conditional write lets only one
+      // worker start the upload, and the lease lets a retry run if it dies
+      const now = new Date();
+      const attempts = job.attempts + 1;
+      const claimed = await claimIndexingJob(job, {
+        state: 'running',
+        attempts,
+        startedAt: now,
+        nextRunAt: new Date(now.getTime() + OPERATION_TIMEOUT_MS),
+      });
+      if (!claimed) return null;
+      job = claimed;
+      await updateDocument(document.id, { indexingAttempts: attempts, indexingStartedAt: now });
+
+      const buffer = await downloadDocument(document.blobName);
+      progress = await getSearchProvider().beginIndexing(buffer, job.fileName, {
+        documentId: document.id,
+        title: document.title,
+        category: document.category,
+        version: document.version,
+        tags: getDocumentTags(document),
+        owner: document.owner,
+      });
+    }
+
+    if (!progress.done) {
+      await updateIndexingJob(job.documentId, {
+        state: 'running',
+        operationName: progress.operationName,
+        nextRunAt: new Date(Date.now() + POLL_INTERVAL_MS),
+      });
+      return 'running';
+    }
+
+    // A replaced file's previous entry stays searchable until the new one is ready
+    if (document.geminiDocumentId && document.geminiDocumentId !== progress.result.indexId) {
+      try {
+        await getSearchProvider().deleteDocument(document.geminiDocumentId);
+      } catch (deleteError) {
+        console.error(`Failed to remove previous index entry of document ${document.id}:`, deleteError);
+      }
+    }
+
+    const completedAt = new Date();
+    await updateDocument(document.id, {
+      geminiDocumentId: progress.result.indexId,
+      geminiFileSearchStoreName: progress.result.storeName,
+      status: 'ready',
+      errorMessage: undefined,
+      indexingCompletedAt: completedAt,
+    });
+    await updateIndexingJob(job.documentId, {
+      state: 'completed',
+      operationName: undefined,
+      completedAt,
+    });
+
+    // The new revision is searchable, so the one it replaced can leave the index
+    try {
+      await retireSupersededRevision(document);
+    } catch (retireError) {
+      console.error(`Failed to retire revision superseded by ${document.id}:`, retireError);
+    }
+    return 'completed';
+  } catch (error) {
+    return recordFailure(job, error);
+  }
+}
+
+async function recordFailure(job: IndexingJob, error: unknown): Promise<IndexingJob['state']> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const attempts = Math.max(job.attempts, 1);
+  console.error(`Indexing attempt ${attempts} failed for document ${job.documentId}:`, error);
+
+  if (attempts >= job.maxAttempts) {
+    await updateIndexingJob(job.documentId, {
+      state: 'failed',
+      operationName: undefined,
+      lastError: errorMessage,
+      completedAt: new Date(),
+    });
+    await updateDocument(job.documentId, {
+      status: 'failed',
+      errorMessage: `Indexing failed: ${errorMessage}`,
+      indexingLastError: errorMessage,
+    });
+    return 'failed';
+  }
+
+  // Retry from the start with exponential backoff
+  await updateIndexingJob(job.documentId, {
+    state: 'queued',
+    operationName: undefined,
+    lastError: errorMessage,
+    nextRunAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+  });
+  await updateDocument(job.documentId, { indexingLastError: errorMessage });
+  return 'queued';
+}
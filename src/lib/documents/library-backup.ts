@@ -0,0 +1,286 @@
+import JSZip from 'jszip';
+import {
+  getAllDocuments,
+  getDocumentById,
+  getDocumentRepository,
+  insertDocument,
+  type Document,
+  type FileSearchStoreConfig,
+} from '@/lib/db/table-storage';
+import { getPolicy, getRevisionIds, listPolicies, savePolicy, type Policy } from '@/lib/db/policies';
+import {
+  downloadDocument,
+  getDocumentMetadata,
+  listDocuments as listBlobs,
+  writeDocument,
+} from '@/lib/storage/blob-storage';
+import { getSearchProvider } from '@/lib/search/search-provider';
+import { toCsv } from '@/lib/csv';
+import { enqueueIndexingJob } from './indexing-queue';
+import { ensureCategoryPath } from './categories';
+import { getPublicationState } from './publication-states';
+import { getReplacedFiles } from './file-history';
+
+export const LIBRARY_MANIFEST_FILE = 'library.json';
+const DOCUMENTS_CSV_FILE = 'documents.csv';
+const BLOB_FOLDER = 'blobs/';
+const BACKUP_FORMAT = 'pgcplus-library';
+const BACKUP_FORMAT_VERSION = 1;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export interface BackupBlob {
+  name: string;
+  size: number;
+  contentType?: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Contents of library.json
+ */
+export interface LibraryManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  storeConfig: FileSearchStoreConfig | null;
+  documents: Document[];
+  /** Revision chains the documents' policyId fields point at */
+  policies: Policy[];
+  blobs: BackupBlob[];
+}
+
+export interface RestoreReport {
+  documents: { restored: number; skipped: string[] };
+  policies: { restored: number; skipped: number };
+  blobs: { restored: number; missing: string[] };
+  storeConfigRestored: boolean;
+  /** Documents queued for indexing into the current store */
+  queuedForIndexing: number;
+}
+
+// Spreadsheet-friendly view of every document; library.json is what restore reads
+const DOCUMENT_CSV_COLUMNS: Array<keyof Document> = [
+  'id',
+  'title',
+  'category',
+  'version',
+  'status',
+  'publicationState',
+  'policyId',
+  'revision',
+  'isCurrent',
+  'supersedes',
+  'supersededBy',
+  'effectiveDate',
+  'reviewDate',
+  'owner',
+  'tags',
+  'fileName',
+  'fileSize',
+  'fileType',
+  'blobName',
+  'contentHash',
+  'geminiDocumentId',
+  'deletedAt',
+  'createdAt',
+];
+
+/**
+ * Bundle every blob in the container, every document row, the policy rows and
+ * the File Search store config row into one ZIP archive.
+ * The archive is built in memory, so very large libraries need a machine with room for it.
+ */
+export async function exportLibrary(): Promise<{ archive: Buffer; manifest: LibraryManifest }> {
+  const [documents, policies, blobs, storeConfig] = await Promise.all([
+    getAllDocuments(),
+    listPolicies(),
+    listBlobs(),
+    getDocumentRepository().getStoreConfig(),
+  ]);
+
+  const zip = new JSZip();
+  const backupBlobs: BackupBlob[] = [];
+  for (const blob of blobs) {
+    zip.file(BLOB_FOLDER + blob.name, await downloadDocument(blob.name));
+    backupBlobs.push({
+      name: blob.name,
+      size: blob.size,
+      contentType: blob.contentType,
+      metadata: await getDocumentMetadata(blob.name),
+    });
+  }
+
+  const manifest: LibraryManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    storeConfig,
+    documents,
+    policies,
+    blobs: backupBlobs,
+  };
+  zip.file(LIBRARY_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  zip.file(DOCUMENTS_CSV_FILE, toCsv(
+    DOCUMENT_CSV_COLUMNS,
+    documents.map((doc) => DOCUMENT_CSV_COLUMNS.map((column) => doc[column]))
+  ));
+
+  // Documents are PDF/DOCX, which are already compressed
+  const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'STORE' });
+  return { archive, manifest };
+}
+
+/**
+ * @returns the manifest, or an error message if the archive is not a library export
+ */
+function parseManifest(text: string): LibraryManifest | string {
+  let manifest: LibraryManifest;
+  try {
+    // Revive ISO date strings so rows are written back with Date properties
+    manifest = JSON.parse(text, (_key, value) =>
+      typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+    ) as LibraryManifest;
+  } catch {
+    return `${LIBRARY_MANIFEST_FILE} is not valid JSON`;
+  }
+
+  if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(manifest.documents)) {
+    return 'The archive is not a library export';
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    return `Unsupported export format version ${manifest.formatVersion}`;
+  }
+  return manifest;
+}
+
+/**
+ * Recreate documents from a library export.
+ *
+ * Document rows keep their IDs (so links and revision chains still work);
+ * rows whose ID already exists are left alone. Their blobs are written back
+ * under the same names and their index fields are cleared: every published
+ * current revision is queued for indexing into this environment's store.
+ *
+ * @param options.restoreStoreConfig - Reuse the archived File Search store when
+ *   this environment has none yet (disaster recovery in the same project).
+ *   When the archived store is the one in use, the restored documents' old
+ *   index entries are deleted before reindexing so answers are not duplicated.
+ * @returns the report, or an error message if the archive cannot be read
+ */
+export async function restoreLibrary(
+  archive: Buffer,
+  options: { restoreStoreConfig?: boolean } = {}
+): Promise<RestoreReport | string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    return 'The file is not a valid ZIP archive';
+  }
+
+  const manifestEntry = zip.file(LIBRARY_MANIFEST_FILE);
+  if (!manifestEntry) {
+    return `The archive does not contain ${LIBRARY_MANIFEST_FILE}`;
+  }
+  const manifest = parseManifest(await manifestEntry.async('string'));
+  if (typeof manifest === 'string') {
+    return manifest;
+  }
+
+  const report: RestoreReport = {
+    documents: { restored: 0, skipped: [] },
+    policies: { restored: 0, skipped: 0 },
+    blobs: { restored: 0, missing: [] },
+    storeConfigRestored: false,
+    queuedForIndexing: 0,
+  };
+
+  const repository = getDocumentRepository();
+  let storeConfig = await repository.getStoreConfig();
+  if (options.restoreStoreConfig && !storeConfig && manifest.storeConfig) {
+    storeConfig = await repository.saveStoreConfig(manifest.storeConfig);
+    report.storeConfigRestored = true;
+  }
+  const sameStore = !!storeConfig && storeConfig.storeName === manifest.storeConfig?.storeName;
+
+  const blobMetadata = new Map((manifest.blobs || []).map((blob) => [blob.name, blob.metadata]));
+  const restoredDocuments: Document[] = [];
+
+  for (const archived of manifest.documents) {
+    if (await getDocumentById(archived.id)) {
+      report.documents.skipped.push(archived.id);
+      continue;
+    }
+
+    const blobNames = [archived.blobName, ...getReplacedFiles(archived).map((file) => file.blobName)];
+    let storageUri = archived.storageUri;
+    let blobMissing = false;
+    for (const blobName of blobNames) {
+      const entry = zip.file(BLOB_FOLDER + blobName);
+      if (!entry) {
+        report.blobs.missing.push(blobName);
+        if (blobName === archived.blobName) blobMissing = true;
+        continue;
+      }
+      const written = await writeDocument(blobName, await entry.async('nodebuffer'), blobMetadata.get(blobName));
+      if (blobName === archived.blobName) storageUri = written.uri;
+      report.blobs.restored++;
+    }
+
+    if (sameStore && archived.geminiDocumentId) {
+      try {
+        await getSearchProvider().deleteDocument(archived.geminiDocumentId);
+      } catch (error) {
+        console.error(`Failed to remove old index entry of restored document ${archived.id}:`, error);
+      }
+    }
+
+    const document = await insertDocument({
+      ...archived,
+      // File categories under this environment's managed taxonomy
+      category: await ensureCategoryPath(archived.category),
+      storageUri,
+      status: blobMissing ? 'failed' : 'unindexed',
+      errorMessage: blobMissing ? 'Document file is missing from storage' : undefined,
+      geminiDocumentId: undefined,
+      geminiFileSearchStoreName: undefined,
+      indexingAttempts: undefined,
+      indexingLastError: undefined,
+      indexingQueuedAt: undefined,
+      indexingStartedAt: undefined,
+      indexingCompletedAt: undefined,
+      timestamp: new Date(),
+    });
+    restoredDocuments.push(document);
+    report.documents.restored++;
+  }
+
+  for (const policy of manifest.policies || []) {
+    if (await getPolicy(policy.policyId)) {
+      report.policies.skipped++;
+      continue;
+    }
+    await savePolicy({
+      policyId: policy.policyId,
+      currentDocumentId: policy.currentDocumentId,
+      revisionIds: getRevisionIds(policy),
+      createdAt: policy.createdAt,
+    });
+    report.policies.restored++;
+  }
+
+  for (const document of restoredDocuments) {
+    if (
+      document.status === 'failed' ||
+      document.deletedAt ||
+      document.isCurrent === false ||
+      getPublicationState(document) !== 'published'
+    ) {
+      continue;
+    }
+    await enqueueIndexingJob(document);
+    report.queuedForIndexing++;
+  }
+
+  return report;
+}
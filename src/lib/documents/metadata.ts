@@ -0,0 +1,121 @@
+import { getDocumentById, updateDocument, type Document } from '@/lib/db/table-storage';
+import { syncDocumentMetadata } from './crud';
+import { ensureCategoryPath, validateCategoryPath } from './categories';
+import { getDocumentTags, normalizeTags } from './tags';
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_VERSION_LENGTH = 50;
+const MAX_OWNER_LENGTH = 200;
+
+export interface MetadataUpdate {
+  title?: string;
+  category?: string;
+  version?: string;
+  tags?: string[];
+  /** Empty string clears the owner */
+  owner?: string;
+}
+
+export type MetadataChanges = Record<string, { from: unknown; to: unknown }>;
+
+function validateText(value: unknown, label: string, maxLength: number, required: boolean): string | null {
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    return `${label} is required`;
+  }
+  if (value.trim().length > maxLength) {
+    return `${label} must be at most ${maxLength} characters`;
+  }
+  return null;
+}
+
+/**
+ * Read the editable fields from a request body
+ * @returns the update, or an error message
+ */
+export function parseMetadataUpdate(body: unknown): MetadataUpdate | string {
+  if (!body || typeof body !== 'object') return 'Invalid request body';
+  const input = body as Record<string, unknown>;
+  const update: MetadataUpdate = {};
+
+  if (input.title !== undefined) {
+    const error = validateText(input.title, 'Title', MAX_TITLE_LENGTH, true);
+    if (error) return error;
+    update.title = (input.title as string).trim();
+  }
+
+  if (input.category !== undefined) {
+    const error = validateCategoryPath(input.category);
+    if (error) return error;
+    update.category = input.category as string;
+  }
+
+  if (input.version !== undefined) {
+    const error = validateText(input.version, 'Version', MAX_VERSION_LENGTH, true);
+    if (error) return error;
+    update.version = (input.version as string).trim();
+  }
+
+  if (input.tags !== undefined) {
+    const tags = normalizeTags(input.tags);
+    if (typeof tags === 'string') return tags;
+    update.tags = tags;
+  }
+
+  if (input.owner !== undefined && input.owner !== null) {
+    const error = validateText(input.owner, 'Owner', MAX_OWNER_LENGTH, false);
+    if (error) return error;
+    update.owner = (input.owner as string).trim();
+  } else if (input.owner === null) {
+    update.owner = '';
+  }
+
+  if (Object.keys(update).length === 0) return 'No metadata to update';
+  return update;
+}
+
+/**
+ * Apply a metadata edit to the table row, then push it to the blob metadata
+ * and the search index entry
+ * @returns the updated document and the fields that actually changed
+ */
+export async function editDocumentMetadata(
+  id: string,
+  update: MetadataUpdate
+): Promise<{ document: Document; changes: MetadataChanges }> {
+  const existing = await getDocumentById(id);
+  if (!existing) throw new Error('Document not found');
+
+  const next = {
+    title: update.title ?? existing.title,
+    category: update.category !== undefined ? await ensureCategoryPath(update.category) : existing.category,
+    version: update.version ?? existing.version,
+    tags: update.tags ?? getDocumentTags(existing),
+    owner: update.owner !== undefined ? update.owner || undefined : existing.owner,
+  };
+  const previous = {
+    title: existing.title,
+    category: existing.category,
+    version: existing.version,
+    tags: getDocumentTags(existing),
+    owner: existing.owner,
+  };
+
+  const changes: MetadataChanges = {};
+  for (const key of Object.keys(next) as Array<keyof typeof next>) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      changes[key] = { from: previous[key], to: next[key] };
+    }
+  }
+  if (Object.keys(changes).length === 0) {
+    return { document: existing, changes };
+  }
+
+  const updated = await updateDocument(id, {
+    title: next.title,
+    category: next.category,
+    version: next.version,
+    tags: next.tags.length > 0 ? JSON.stringify(next.tags) : undefined,
+    owner: next.owner,
+  });
+  return { document: await syncDocumentMetadata(updated), changes };
+}
@@ -0,0 +1,74 @@
+import { hasRole, type Role } from '@/lib/auth/roles';
+
+export type PublicationState = 'draft' | 'in_review' | 'approved' | 'published' | 'archived';
+
+export type WorkflowAction = 'submit' | 'approve' | 'request_changes' | 'publish' | 'archive' | 'reopen';
+
+export interface WorkflowTransitionRule {
+  action: WorkflowAction;
+  label: string;
+  from: PublicationState;
+  to: PublicationState;
+  /** Minimum role allowed to perform the transition */
+  role: Role;
+  commentRequired: boolean;
+}
+
+export const PUBLICATION_STATE_LABELS: Record<PublicationState, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  approved: 'Approved',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+export const WORKFLOW_TRANSITIONS: WorkflowTransitionRule[] = [
+  { action: 'submit', label: 'Submit for review', from: 'draft', to: 'in_review', role: 'editor', commentRequired: false },
+  { action: 'approve', label: 'Approve', from: 'in_review', to: 'approved', role: 'admin', commentRequired: true },
+  { action: 'request_changes', label: 'Request changes', from: 'in_review', to: 'draft', role: 'admin', commentRequired: true },
+  { action: 'publish', label: 'Publish', from: 'approved', to: 'published', role: 'admin', commentRequired: false },
+  { action: 'archive', label: 'Archive', from: 'published', to: 'archived', role: 'admin', commentRequired: false },
+  { action: 'reopen', label: 'Reopen as draft', from: 'archived', to: 'draft', role: 'editor', commentRequired: false },
+];
+
+/**
+ * Publication state of a document; rows created before the workflow existed were live, so count as published
+ */
+export function getPublicationState(document: { publicationState?: PublicationState }): PublicationState {
+  return document.publicationState || 'published';
+}
+
+/**
+ * Whether anonymous visitors and viewers may see the document.
+ * Archived documents stay viewable as history but are not searchable.
+ */
+export function isPubliclyVisible(document: { publicationState?: PublicationState }): boolean {
+  const state = getPublicationState(document);
+  return state === 'published' || state === 'archived';
+}
+
+/**
+ * Editors and admins see documents in every state, including the recycle bin;
+ * everyone else only sees visible ones
+ */
+export function canViewDocument(
+  document: { publicationState?: PublicationState; deletedAt?: Date },
+  role: Role | undefined
+): boolean {
+  if (hasRole(role, 'editor')) return true;
+  return !document.deletedAt && isPubliclyVisible(document);
+}
+
+export function getTransitionRule(action: string): WorkflowTransitionRule | undefined {
+  return WORKFLOW_TRANSITIONS.find((rule) => rule.action === action);
+}
+
+/**
+ * Transitions a user with `role` can perform from `state`
+ */
+export function getAvailableTransitions(
+  state: PublicationState,
+  role: Role | undefined
+): WorkflowTransitionRule[] {
+  return WORKFLOW_TRANSITIONS.filter((rule) => rule.from === state && hasRole(role, rule.role));
+}
@@ -0,0 +1,77 @@
+import { updateDocument, type Document } from '@/lib/db/table-storage';
+import { appendWorkflowTransition } from '@/lib/db/workflow-transitions';
+import { deleteIndexingJob } from '@/lib/db/indexing-jobs';
+import { getSearchProvider } from '@/lib/search/search-provider';
+import { enqueueIndexingJob } from './indexing-queue';
+import { makeCurrentRevision } from './versions';
+import { getPublicationState, type WorkflowTransitionRule } from './publication-states';
+
+/**
+ * Take a document out of the search index, e.g. when it is archived
+ */
+export async function unindexDocument(document: Document): Promise<Document> {
+  if (document.geminiDocumentId) {
+    await getSearchProvider().deleteDocument(document.geminiDocumentId);
+  }
+  await deleteIndexingJob(document.id);
+
+  return updateDocument(document.id, {
+    status: 'unindexed',
+    geminiDocumentId: undefined,
+    geminiFileSearchStoreName: undefined,
+    errorMessage: undefined,
+  });
+}
+
+/**
+ * Apply a workflow transition and record who performed it.
+ * Publishing makes the revision current and queues indexing; archiving
+ * removes it from the search index. Callers check the rule applies to the
+ * document's state and the actor's role.
+ */
+export async function transitionDocument(
+  document: Document,
+  rule: WorkflowTransitionRule,
+  actor: string,
+  comment?: string
+): Promise<Document> {
+  const from = getPublicationState(document);
+  if (rule.from !== from) {
+    throw new Error(`Cannot ${rule.action} a document that is ${from}`);
+  }
+
+  await appendWorkflowTransition({
+    documentId: document.id,
+    action: rule.action,
+    from,
+    to: rule.to,
+    actor,
+    comment,
+  });
+
+  const now = new Date();
+  let updated = await updateDocument(document.id, {
+    publicationState: rule.to,
+    ...(rule.action === 'approve' && {
+      approvedBy: actor,
+      approvedAt: now,
+      approvalComment: comment,
+    }),
+    // A document sent back or reopened needs a fresh approval
+    ...(rule.to === 'draft' && {
+      approvedBy: undefined,
+      approvedAt: undefined,
+      approvalComment: undefined,
+    }),
+    ...(rule.to === 'published' && { publishedAt: now }),
+  });
+
+  if (rule.to === 'published') {
+    updated = await makeCurrentRevision(updated);
+    updated = await enqueueIndexingJob(updated);
+  } else if (rule.to === 'archived') {
+    updated = await unindexDocument(updated);
+  }
+
+  return updated;
+}
@@ -0,0 +1,227 @@
+import { getAllDocuments, updateDocument, type Document } from '@/lib/db/table-storage';
+import { listIndexingJobs } from '@/lib/db/indexing-jobs';
+import { listDocuments as listBlobs, deleteDocument as deleteBlob, type BlobInfo } from '@/lib/storage/blob-storage';
+import { getSearchProvider, type IndexedDocument } from '@/lib/search/search-provider';
+import { enqueueIndexingJob } from './indexing-queue';
+import { retireSupersededRevision } from './versions';
+import { getReplacedFiles } from './file-history';
+import { reindexDocument } from './crud';
+import { listImportArchiveBlobNames } from './bulk-import';
+
+export type ReconcileMode = 'dry-run' | 'fix';
+
+export interface ReconcileOptions {
+  mode?: ReconcileMode;
+  /** Rows processing for longer than this are considered stuck */
+  stuckAfterMinutes?: number;
+  /** Ignore blobs and index entries younger than this (uploads may be in flight) */
+  graceMinutes?: number;
+}
+
+export interface ReconcileIssue {
+  /** What was found, e.g. a document ID, blob name or index entry ID */
+  id: string;
+  detail: string;
+  action?: string;
+  error?: string;
+}
+
+export interface ReconcileReport {
+  mode: ReconcileMode;
+  checkedAt: string;
+  totals: {
+    documents: number;
+    blobs: number;
+    indexEntries: number;
+  };
+  missingBlobs: ReconcileIssue[];
+  orphanedBlobs: ReconcileIssue[];
+  orphanedIndexEntries: ReconcileIssue[];
+  stuckProcessing: ReconcileIssue[];
+  /** Superseded revisions still in the index after their replacement was indexed */
+  supersededStillIndexed: ReconcileIssue[];
+  /** Index entries uploaded before the documentId metadata citations resolve through */
+  missingDocumentIdMetadata: ReconcileIssue[];
+}
+
+const DEFAULT_STUCK_AFTER_MINUTES = 30;
+const DEFAULT_GRACE_MINUTES = 15;
+
+/**
+ * Compare the documents table, the blob container and the search index.
+ *
+ * Reports table rows whose blob is missing, blobs and index entries with no
+ * table row, rows stuck in 'processing', superseded revisions still
+ * indexed and index entries without documentId metadata. In 'fix' mode it
+ * marks rows with missing blobs as failed, deletes orphaned blobs and index
+ * entries, re-queues stuck rows, retires the superseded revisions and
+ * reindexes the entries without metadata.
+ */
+export async function reconcile(options: ReconcileOptions = {}): Promise<ReconcileReport> {
+  const mode = options.mode || 'dry-run';
+  const now = Date.now();
+  const stuckBefore = now - (options.stuckAfterMinutes ?? DEFAULT_STUCK_AFTER_MINUTES) * 60 * 1000;
+  const graceBefore = now - (options.graceMinutes ?? DEFAULT_GRACE_MINUTES) * 60 * 1000;
+
+  const provider = getSearchProvider();
+  const [documents, blobs, indexEntries, jobs, importArchives] = await Promise.all([
+    getAllDocuments(),
+    listBlobs(),
+    provider.listIndexedDocuments(),
+    listIndexingJobs(),
+    listImportArchiveBlobNames(),
+  ]);
+
+  const report: ReconcileReport = {
+    mode,
+    checkedAt: new Date(now).toISOString(),
+    totals: {
+      documents: documents.length,
+      blobs: blobs.length,
+      indexEntries: indexEntries.length,
+    },
+    missingBlobs: [],
+    orphanedBlobs: [],
+    orphanedIndexEntries: [],
+    stuckProcessing: [],
+    supersededStillIndexed: [],
+    missingDocumentIdMetadata: [],
+  };
+
+  const blobNames = new Set(blobs.map((blob) => blob.name));
+  // Files replaced in place are kept as prior revisions, and archives of
+  // imports still processing are kept until they finish, so they are not orphans
+  const knownBlobNames = new Set([
+    ...documents.flatMap((doc) => [doc.blobName, ...getReplacedFiles(doc).map((file) => file.blobName)]),
+    ...importArchives,
+  ]);
+  const knownIndexIds = new Set(documents.map((doc) => doc.geminiDocumentId).filter(Boolean));
+  const knownDocumentIds = new Set(documents.map((doc) => doc.id));
+  const jobsByDocument = new Map(jobs.map((job) => [job.documentId, job]));
+
+  // Table rows whose file is gone
+  for (const doc of documents) {
+    if (blobNames.has(doc.blobName)) continue;
+    report.missingBlobs.push(
+      await applyFix(mode, {
+        id: doc.id,
+        detail: `"${doc.title}" references missing blob ${doc.blobName}`,
+      }, 'Marked document as failed', () => markMissingBlob(doc))
+    );
+  }
+
+  // Blobs no table row points at
+  for (const blob of blobs) {
+    if (knownBlobNames.has(blob.name) || isWithinGrace(blob, graceBefore)) continue;
+    report.orphanedBlobs.push(
+      await applyFix(mode, {
+        id: blob.name,
+        detail: `Blob (${blob.size} bytes) has no document row`,
+      }, 'Deleted blob', () => deleteBlob(blob.name))
+    );
+  }
+
+  // Index entries no table row points at
+  for (const entry of indexEntries) {
+    if (isKnownIndexEntry(entry, knownIndexIds, knownDocumentIds)) continue;
+    if (entry.updatedAt && new Date(entry.updatedAt).getTime() > graceBefore) continue;
+    report.orphanedIndexEntries.push(
+      await applyFix(mode, {
+        id: entry.indexId,
+        detail: `Index entry "${entry.displayName || entry.indexId}" has no document row`,
+      }, 'Deleted index entry', () => provider.deleteDocument(entry.indexId))
+    );
+  }
+
+  // Rows stuck in 'processing' with no live job
+  for (const doc of documents) {
+    if (doc.status !== 'processing') continue;
+    const job = jobsByDocument.get(doc.id);
+    const lastActivity = new Date(job?.updatedAt || doc.indexingQueuedAt || doc.createdAt).getTime();
+    // A finished job with the row still processing is stuck regardless of age
+    const jobIsLive = !job || job.state === 'queued' || job.state === 'running';
+    if (jobIsLive && lastActivity > stuckBefore) continue;
+
+    report.stuckProcessing.push(
+      await applyFix(mode, {
+        id: doc.id,
+        detail: `"${doc.title}" processing since ${new Date(lastActivity).toISOString()}` +
+          (job ? ` (job ${job.state})` : ' (no job)'),
+      }, 'Re-queued indexing', async () => {
+        await enqueueIndexingJob(doc);
+      })
+    );
+  }
+
+  // Superseded revisions whose retirement failed
+  const documentsById = new Map(documents.map((doc) => [doc.id, doc]));
+  for (const doc of documents) {
+    if (doc.isCurrent !== false || !doc.geminiDocumentId || !doc.supersededBy) continue;
+    const replacement = documentsById.get(doc.supersededBy);
+    if (replacement?.status !== 'ready') continue;
+
+    report.supersededStillIndexed.push(
+      await applyFix(mode, {
+        id: doc.id,
+        detail: `"${doc.title}" v${doc.version} is still indexed but superseded by ${replacement.id}`,
+      }, 'Removed from index', () => retireSupersededRevision(replacement))
+    );
+  }
+
+  // Entries without our document ID cannot be cited by it
+  const documentsByIndexId = new Map(documents.map((doc) => [doc.geminiDocumentId, doc]));
+  for (const entry of indexEntries) {
+    if (entry.metadata.documentId) continue;
+    const doc = documentsByIndexId.get(entry.indexId);
+    if (!doc || doc.status === 'processing') continue;
+
+    report.missingDocumentIdMetadata.push(
+      await applyFix(mode, {
+        id: doc.id,
+        detail: `Index entry of "${doc.title}" has no documentId metadata`,
+      }, 'Reindexed', async () => {
+        await reindexDocument(doc.id);
+      })
+    );
+  }
+
+  return report;
+}
+
+function isWithinGrace(blob: BlobInfo, graceBefore: number): boolean {
+  return new Date(blob.lastModified).getTime() > graceBefore;
+}
+
+function isKnownIndexEntry(
+  entry: IndexedDocument,
+  knownIndexIds: Set<string | undefined>,
+  knownDocumentIds: Set<string>
+): boolean {
+  if (knownIndexIds.has(entry.indexId)) return true;
+  const documentId = entry.metadata.documentId;
+  return !!documentId && knownDocumentIds.has(documentId);
+}
+
+async function markMissingBlob(doc: Document): Promise<void> {
+  await updateDocument(doc.id, {
+    status: 'failed',
+    errorMessage: 'Document file is missing from storage',
+  });
+}
+
+async function applyFix(
+  mode: ReconcileMode,
+  issue: ReconcileIssue,
+  action: string,
+  fix: () => Promise<void>
+): Promise<ReconcileIssue> {
+  if (mode !== 'fix') return issue;
+
+  try {
+    await fix();
+    return { ...issue, action };
+  } catch (error) {
+    console.error(`Reconciliation fix failed for ${issue.id}:`, error);
+    return { ...issue, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,86 @@
+import { getAllDocuments, type Document } from '@/lib/db/table-storage';
+import { getPublicationState } from './publication-states';
+import { getDaysUntilReview, getReviewStatus } from './review-dates';
+
+export interface ReviewDueItem {
+  id: string;
+  title: string;
+  category: string;
+  version: string;
+  owner?: string;
+  reviewDate: string;
+  daysUntilReview: number;
+}
+
+export interface ReviewDashboard {
+  generatedAt: string;
+  overdue: ReviewDueItem[];
+  due30: ReviewDueItem[];
+  due60: ReviewDueItem[];
+  due90: ReviewDueItem[];
+  /** Live documents with no review date recorded */
+  notSet: Array<Pick<ReviewDueItem, 'id' | 'title' | 'category' | 'version' | 'owner'>>;
+}
+
+function toItem(document: Document, now: Date): ReviewDueItem {
+  return {
+    id: document.id,
+    title: document.title,
+    category: document.category,
+    version: document.version,
+    owner: document.owner,
+    reviewDate: document.reviewDate!,
+    daysUntilReview: getDaysUntilReview(document.reviewDate!, now),
+  };
+}
+
+/**
+ * Group live documents (published, current revisions) by how soon their review is due
+ */
+export async function getReviewDashboard(now: Date = new Date()): Promise<ReviewDashboard> {
+  const documents = (await getAllDocuments()).filter(
+    (doc) => !doc.deletedAt && doc.isCurrent !== false && getPublicationState(doc) === 'published'
+  );
+
+  const dashboard: ReviewDashboard = {
+    generatedAt: now.toISOString(),
+    overdue: [],
+    due30: [],
+    due60: [],
+    due90: [],
+    notSet: [],
+  };
+
+  for (const doc of documents) {
+    switch (getReviewStatus(doc, now)) {
+      case 'overdue':
+        dashboard.overdue.push(toItem(doc, now));
+        break;
+      case 'due_30':
+        dashboard.due30.push(toItem(doc, now));
+        break;
+      case 'due_60':
+        dashboard.due60.push(toItem(doc, now));
+        break;
+      case 'due_90':
+        dashboard.due90.push(toItem(doc, now));
+        break;
+      case 'not_set':
+        dashboard.notSet.push({
+          id: doc.id,
+          title: doc.title,
+          category: doc.category,
+          version: doc.version,
+          owner: doc.owner,
+        });
+        break;
+    }
+  }
+
+  // Most urgent first
+  for (const bucket of [dashboard.overdue, dashboard.due30, dashboard.due60, dashboard.due90]) {
+    bucket.sort((a, b) => a.daysUntilReview - b.daysUntilReview);
+  }
+
+  return dashboard;
+}
@@ -0,0 +1,39 @@
+export type ReviewStatus = 'overdue' | 'due_30' | 'due_60' | 'due_90' | 'current' | 'not_set';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a value is a calendar date in YYYY-MM-DD form (as sent by date inputs)
+ */
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Whole days from today (UTC) until the review date; negative once it has passed
+ */
+export function getDaysUntilReview(reviewDate: string, now: Date = new Date()): number {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((new Date(`${reviewDate}T00:00:00Z`).getTime() - today) / DAY_MS);
+}
+
+export function getReviewStatus(
+  document: { reviewDate?: string },
+  now: Date = new Date()
+): ReviewStatus {
+  if (!document.reviewDate || !isValidDateString(document.reviewDate)) return 'not_set';
+
+  const days = getDaysUntilReview(document.reviewDate, now);
+  if (days < 0) return 'overdue';
+  if (days <= 30) return 'due_30';
+  if (days <= 60) return 'due_60';
+  if (days <= 90) return 'due_90';
+  return 'current';
+}
+
+export function isReviewOverdue(document: { reviewDate?: string }, now: Date = new Date()): boolean {
+  return getReviewStatus(document, now) === 'overdue';
+}
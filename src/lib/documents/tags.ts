@@ -0,0 +1,37 @@
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+/**
+ * Tags stored on a document row (a JSON array string)
+ */
+export function getDocumentTags(document: { tags?: string }): string[] {
+  if (!document.tags) return [];
+  try {
+    const tags = JSON.parse(document.tags);
+    return Array.isArray(tags) ? tags.filter((tag) => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Trim tags and drop empty and duplicate (case-insensitive) entries
+ * @returns the tags, or an error message if they are not a list of short strings
+ */
+export function normalizeTags(value: unknown): string[] | string {
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== 'string')) {
+    return 'Tags must be a list of strings';
+  }
+
+  const tags: string[] = [];
+  for (const raw of value as string[]) {
+    const tag = raw.trim().replace(/\s+/g, ' ');
+    if (!tag || tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) continue;
+    if (tag.length > MAX_TAG_LENGTH) return `Tags must be at most ${MAX_TAG_LENGTH} characters`;
+    if (tag.includes(',')) return 'Tags cannot contain commas';
+    tags.push(tag);
+  }
+
+  if (tags.length > MAX_TAGS) return `A document can have at most ${MAX_TAGS} tags`;
+  return tags;
+}
@@ -0,0 +1,85 @@
+import { getAllDocuments, getDocumentById, updateDocument, type Document } from '@/lib/db/table-storage';
+import { purgeDocument, reindexDocument } from './crud';
+import { unindexDocument } from './publication';
+import { getPublicationState } from './publication-states';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a document stays in the recycle bin before it is purged automatically
+ * Set TRASH_RETENTION_DAYS (default 30)
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function getPurgeDate(document: Document): Date | null {
+  if (!document.deletedAt) return null;
+  return new Date(new Date(document.deletedAt).getTime() + getTrashRetentionDays() * DAY_MS);
+}
+
+/**
+ * Move a document to the recycle bin: it leaves the search index and all
+ * lists, but the blob and table row are kept so it can be restored
+ */
+export async function trashDocument(id: string, actor: string): Promise<Document> {
+  const document = await getDocumentById(id);
+  if (!document) throw new Error('Document not found');
+
+  const unindexed = await unindexDocument(document);
+  return updateDocument(unindexed.id, { deletedAt: new Date(), deletedBy: actor });
+}
+
+/**
+ * Take a document out of the recycle bin; published current revisions are
+ * queued for indexing again
+ */
+export async function restoreDocument(id: string): Promise<Document> {
+  const document = await getDocumentById(id);
+  if (!document) throw new Error('Document not found');
+
+  const restored = await updateDocument(id, { deletedAt: undefined, deletedBy: undefined });
+  if (restored.isCurrent !== false && getPublicationState(restored) === 'published') {
+    return reindexDocument(id);
+  }
+  return restored;
+}
+
+export async function listTrashedDocuments(): Promise<Document[]> {
+  const documents = await getAllDocuments();
+  return documents
+    .filter((doc) => !!doc.deletedAt)
+    .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+}
+
+/**
+ * Permanently delete every document in the recycle bin, or only those past the retention period
+ */
+export async function purgeTrash(
+  options: { expiredOnly?: boolean; now?: Date } = {}
+): Promise<{ purged: string[]; errors: Array<{ id: string; error: string }> }> {
+  const now = options.now || new Date();
+  const result = {
+    purged: [] as string[],
+    errors: [] as Array<{ id: string; error: string }>,
+  };
+
+  for (const doc of await listTrashedDocuments()) {
+    if (options.expiredOnly && getPurgeDate(doc)!.getTime() > now.getTime()) continue;
+
+    try {
+      await purgeDocument(doc.id);
+      result.purged.push(doc.id);
+    } catch (error) {
+      console.error(`Failed to purge document ${doc.id}:`, error);
+      result.errors.push({
+        id: doc.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
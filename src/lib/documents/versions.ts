@@ -0,0 +1,196 @@
+import { getDocumentById, updateDocument, type Document } from '@/lib/db/table-storage';
+import { getPolicy, savePolicy, deletePolicy, getRevisionIds } from '@/lib/db/policies';
+import { deleteIndexingJob } from '@/lib/db/indexing-jobs';
+import { getSearchProvider } from '@/lib/search/search-provider';
+
+export interface RevisionHistory {
+  policyId: string;
+  currentDocumentId: string;
+  /** Oldest revision first */
+  revisions: Document[];
+}
+
+/**
+ * Policy a document belongs to; rows created before version history are their own policy
+ */
+function getPolicyId(document: Document): string {
+  return document.policyId || document.id;
+}
+
+/**
+ * Start a new policy with the document as its first (and current) revision
+ */
+export async function startPolicy(document: Document): Promise<Document> {
+  await savePolicy({
+    policyId: document.id,
+    currentDocumentId: document.id,
+    revisionIds: [document.id],
+  });
+  return updateDocument(document.id, { policyId: document.id, revision: 1, isCurrent: true });
+}
+
+/**
+ * Append a draft revision to the previous revision's policy.
+ * It becomes current only when published (see makeCurrentRevision).
+ */
+export async function addRevision(previous: Document, document: Document): Promise<Document> {
+  const policyId = getPolicyId(previous);
+  const policy = await getPolicy(policyId);
+  const revisionIds = policy ? getRevisionIds(policy) : [previous.id];
+
+  if (!policy) {
+    // Older rows have no policy yet - the previous revision starts one
+    await updateDocument(previous.id, { policyId, revision: 1, isCurrent: true });
+  }
+
+  await savePolicy({
+    policyId,
+    currentDocumentId: policy?.currentDocumentId || previous.id,
+    revisionIds: [...revisionIds, document.id],
+    createdAt: policy?.createdAt,
+  });
+
+  return updateDocument(document.id, {
+    policyId,
+    revision: revisionIds.length + 1,
+    isCurrent: false,
+    supersedes: previous.id,
+  });
+}
+
+/**
+ * Point the policy at a newly published revision and mark the revision it
+ * replaces as superseded. The replaced revision stays in the search index
+ * until the new one is indexed (see retireSupersededRevision), so search
+ * never has a gap.
+ */
+export async function makeCurrentRevision(document: Document): Promise<Document> {
+  const policyId = getPolicyId(document);
+  const policy = await getPolicy(policyId);
+  if (!policy || policy.currentDocumentId === document.id) {
+    return updateDocument(document.id, { isCurrent: true });
+  }
+
+  // Supersede whatever is current now, which may differ from the revision
+  // this one was drafted from
+  const previous = await getDocumentById(policy.currentDocumentId);
+  if (previous) {
+    await updateDocument(previous.id, {
+      isCurrent: false,
+      supersededBy: document.id,
+      supersededAt: new Date(),
+    });
+  }
+
+  await savePolicy({
+    policyId,
+    currentDocumentId: document.id,
+    revisionIds: getRevisionIds(policy),
+    createdAt: policy.createdAt,
+  });
+
+  return updateDocument(document.id, {
+    isCurrent: true,
+    supersedes: previous?.id,
+  });
+}
+
+/**
+ * Remove the revision a newly indexed document replaced from the search index,
+ * so search only cites the current version
+ */
+export async function retireSupersededRevision(document: Document): Promise<void> {
+  if (!document.supersedes) return;
+
+  const previous = await getDocumentById(document.supersedes);
+  if (!previous || previous.supersededBy !== document.id) return;
+
+  if (previous.geminiDocumentId) {
+    await getSearchProvider().deleteDocument(previous.geminiDocumentId);
+  }
+  // Stop a still-queued job from indexing the old revision afterwards
+  await deleteIndexingJob(previous.id);
+
+  await updateDocument(previous.id, {
+    geminiDocumentId: undefined,
+    geminiFileSearchStoreName: undefined,
+    ...(previous.status === 'processing' && {
+      status: 'failed' as const,
+      errorMessage: 'Superseded before indexing completed',
+    }),
+  });
+  console.log(`Retired revision ${previous.id} (superseded by ${document.id})`);
+}
+
+/**
+ * Take a revision out of its policy before it is deleted, relinking its
+ * neighbours. If it was the current revision the one it replaced becomes
+ * current again.
+ * @returns the promoted revision, which needs indexing again, or null
+ */
+export async function detachRevision(document: Document): Promise<Document | null> {
+  const policyId = getPolicyId(document);
+  const policy = await getPolicy(policyId);
+  if (!policy) return null;
+
+  const revisionIds = getRevisionIds(policy).filter((id) => id !== document.id);
+  if (revisionIds.length === 0) {
+    await deletePolicy(policyId);
+    return null;
+  }
+
+  if (document.supersededBy) {
+    await updateDocument(document.supersededBy, { supersedes: document.supersedes });
+  }
+
+  const wasCurrent = policy.currentDocumentId === document.id;
+  const previous = document.supersedes ? await getDocumentById(document.supersedes) : null;
+  let promoted: Document | null = null;
+
+  // Drafts point at the revision they were based on without superseding it,
+  // so only relink a previous revision that this one actually replaced
+  if (previous && previous.supersededBy === document.id) {
+    promoted = await updateDocument(previous.id, {
+      supersededBy: document.supersededBy,
+      ...(wasCurrent && { isCurrent: true, supersededAt: undefined }),
+    });
+  }
+
+  await savePolicy({
+    policyId,
+    currentDocumentId: wasCurrent
+      ? promoted?.id || revisionIds[revisionIds.length - 1]
+      : policy.currentDocumentId,
+    revisionIds,
+    createdAt: policy.createdAt,
+  });
+
+  return wasCurrent ? promoted : null;
+}
+
+/**
+ * Every revision of the policy a document belongs to
+ */
+export async function getRevisionHistory(document: Document): Promise<RevisionHistory> {
+  const policyId = getPolicyId(document);
+  const policy = await getPolicy(policyId);
+  if (!policy) {
+    return { policyId, currentDocumentId: document.id, revisions: [document] };
+  }
+
+  const revisions = await Promise.all(getRevisionIds(policy).map((id) => getDocumentById(id)));
+  return {
+    policyId,
+    currentDocumentId: policy.currentDocumentId,
+    revisions: revisions.filter((revision): revision is Document => !!revision),
+  };
+}
+
+/**
+ * ID of the current revision of the policy a document belongs to
+ */
+export async function getCurrentRevisionId(document: Document): Promise<string> {
+  if (document.isCurrent !== false) return document.id;
+  const policy = await getPolicy(getPolicyId(document));
+  return policy?.currentDocumentId || document.id;
+}
@@ -1,11 +1,22 @@
+import { UploadToFileSearchStoreOperation, type UploadToFileSearchStoreResponse } from '@google/genai';
 import { getGeminiClient } from './client';
 import { getOrCreateFileSearchStore } from './file-search-store';
+import { deleteStoreDocument, isStoreDocumentName } from './store-documents';
 
 export interface GeminiUploadResult {
+  /** Store document resource name, e.g. "fileSearchStores/abc/documents/def" */
   geminiDocumentId: string;
   geminiFileSearchStoreName: string;
 }
 
+/**
+ * State of a File Search upload operation - either finished with a result,
+ * or still indexing under the returned operation name
+ */
+export type GeminiUploadStatus =
+  | { done: true; result: GeminiUploadResult }
+  | { done: false; operationName: string };
+
 /**
  * Get MIME type from file extension
  */
@@ -23,21 +34,25 @@ function getMimeType(fileName: string): string {
 }
 
 /**
- * Upload document to Gemini File Search Store
+ * Start uploading a document to the Gemini File Search Store
+ * Returns immediately; indexing continues server-side and is tracked by operation name
  * @param buffer - File content as Buffer
  * @param fileName - Original file name
- * @param metadata - Document metadata (category, version, title)
- * @returns Gemini document ID and store name
+ * @param metadata - Document metadata (our document ID, category, version, title, tags, owner)
+ * @returns Upload status (usually still in progress)
  */
-export async function uploadDocumentToGemini(
+export async function startGeminiUpload(
   buffer: Buffer,
   fileName: string,
   metadata: {
+    documentId: string;
     title: string;
     category: string;
     version: string;
+    tags?: string[];
+    owner?: string;
   }
-): Promise<GeminiUploadResult> {
+): Promise<GeminiUploadStatus> {
   const client = getGeminiClient();
   const storeName = await getOrCreateFileSearchStore();
 
@@ -54,66 +69,82 @@ export async function uploadDocumentToGemini(
     file: blob,
     fileSearchStoreName: storeName,
     config: {
-      displayName: fileName,
+      // Grounding chunks carry the display name, so it identifies our document
+      displayName: metadata.documentId,
       customMetadata: [
+        { key: 'documentId', stringValue: metadata.documentId },
         { key: 'title', stringValue: metadata.title },
         { key: 'category', stringValue: metadata.category },
         { key: 'version', stringValue: metadata.version },
+        ...(metadata.tags?.length ? [{ key: 'tags', stringListValue: { values: metadata.tags } }] : []),
+        ...(metadata.owner ? [{ key: 'owner', stringValue: metadata.owner }] : []),
       ],
     },
   });
 
-  // Poll for completion (Gemini indexing is async)
-  let completedOperation = operation;
-  let pollAttempts = 0;
-  const maxAttempts = 60; // 5 minutes max (5s intervals)
+  return toUploadStatus(operation, storeName);
+}
+
+/**
+ * Check a File Search upload operation started by startGeminiUpload
+ * @param operationName - The operation name (e.g., "fileSearchStores/abc/operations/xyz")
+ */
+export async function checkGeminiUpload(operationName: string): Promise<GeminiUploadStatus> {
+  const client = getGeminiClient();
+  const storeName = await getOrCreateFileSearchStore();
+
+  const pending = new UploadToFileSearchStoreOperation();
+  pending.name = operationName;
 
-  while (!completedOperation.done && pollAttempts < maxAttempts) {
-    await new Promise(resolve => setTimeout(resolve, 5000)); // 5 second intervals
-    completedOperation = await client.operations.get({ operation: completedOperation });
-    pollAttempts++;
+  const operation = await client.operations.get({ operation: pending });
+  return toUploadStatus(operation, storeName);
+}
 
-    if (pollAttempts % 6 === 0) {
-      // Log progress every 30 seconds
-      console.log(`Gemini indexing in progress... ${pollAttempts * 5}s elapsed`);
+function toUploadStatus(
+  operation: { name?: string; done?: boolean; error?: Record<string, unknown>; response?: unknown },
+  storeName: string
+): GeminiUploadStatus {
+  if (!operation.done) {
+    if (!operation.name) {
+      throw new Error('Gemini upload returned no operation name');
     }
+    return { done: false, operationName: operation.name };
   }
 
-  if (!completedOperation.done) {
-    throw new Error('Gemini indexing timeout - operation did not complete in 5 minutes');
+  if (operation.error) {
+    throw new Error(`Gemini indexing failed: ${operation.error.message}`);
   }
 
-  if (completedOperation.error) {
-    throw new Error(`Gemini indexing failed: ${completedOperation.error.message}`);
+  // The completed operation names the document created in the store
+  const geminiDocumentId = (operation.response as UploadToFileSearchStoreResponse | undefined)?.documentName;
+  if (!isStoreDocumentName(geminiDocumentId)) {
+    throw new Error(`Gemini upload completed without a store document name (${operation.name})`);
   }
 
-  // Extract document ID from operation result
-  // The response contains the uploaded document information
-  const geminiDocumentId = (completedOperation.response as any)?.name ||
-                          (completedOperation as any).name ||
-                          'unknown';
-
   console.log(`Document uploaded to Gemini successfully: ${geminiDocumentId}`);
 
   return {
-    geminiDocumentId,
-    geminiFileSearchStoreName: storeName,
+    done: true,
+    result: {
+      geminiDocumentId,
+      geminiFileSearchStoreName: storeName,
+    },
   };
 }
 
 /**
- * Delete document from Gemini File Search Store
- * @param geminiDocumentId - The Gemini document ID (e.g., "files/abc123")
+ * Delete document from Gemini File Search Store (including its chunks)
+ * @param geminiDocumentId - The store document name (e.g., "fileSearchStores/abc/documents/def")
  */
 export async function deleteDocumentFromGemini(
   geminiDocumentId: string
 ): Promise<void> {
-  try {
-    const client = getGeminiClient();
-    await client.files.delete({ name: geminiDocumentId });
-    console.log(`Deleted document from Gemini: ${geminiDocumentId}`);
-  } catch (error) {
-    // Log but don't throw - document may already be deleted or not exist
-    console.warn(`Failed to delete Gemini document ${geminiDocumentId}:`, error);
+  if (!isStoreDocumentName(geminiDocumentId)) {
+    // Rows indexed before store document names were captured hold operation
+    // names or 'unknown'; reconciliation finds the orphaned store entries
+    console.warn(`Cannot delete Gemini entry with legacy ID "${geminiDocumentId}" - not a store document name`);
+    return;
   }
+
+  await deleteStoreDocument(geminiDocumentId);
 }
@@ -0,0 +1,202 @@
+import type {
+  Content,
+  CustomMetadata,
+  GenerateContentConfig,
+  GroundingChunk,
+  GroundingChunkRetrievedContext,
+  GroundingMetadata,
+} from '@google/genai';
+import { getGeminiClient } from './client';
+import { getOrCreateFileSearchStore } from './file-search-store';
+import { isStoreDocumentName } from './store-documents';
+import { getAllDocuments, type Document } from '@/lib/db/table-storage';
+import { buildCitations, type RetrievedChunk } from '@/lib/search/citations';
+import { hasSearchFilters, resolveSearchScope, type SearchScope } from '@/lib/search/filters';
+import type { SearchAnswer, SearchOptions } from '@/lib/search/search-provider';
+
+const SEARCH_MODEL = 'gemini-2.5-flash';
+
+const SYSTEM_INSTRUCTION = `You are a helpful AI assistant that answers questions about company policies and guidelines.
+
+Instructions:
+- Search through the provided documents to find relevant information
+- Provide accurate, concise answers based only on the document contents
+- Always cite your sources using inline citations [1], [2], etc.
+- If you cannot find the answer in the documents, say so clearly
+- If multiple documents contain relevant information, synthesize the information coherently
+- Follow-up questions may refer to earlier questions and answers in the conversation
+- If relevant, present information as a markdown table for better clarity
+- Use emojis where appropriate to make responses more engaging and easier to scan
+- Use **bold** for emphasis on important terms (e.g., drug names, key requirements, deadlines)
+- Use *italics* for definitions, technical terms, or subtle emphasis
+- Be professional and clear in your responses`;
+
+/**
+ * Earlier turns as alternating user/model contents, followed by the new question
+ */
+function buildContents(query: string, options: SearchOptions): Content[] {
+  const history = (options.history || []).flatMap((turn): Content[] => [
+    { role: 'user', parts: [{ text: turn.question }] },
+    { role: 'model', parts: [{ text: turn.answer }] },
+  ]);
+  return [...history, { role: 'user', parts: [{ text: query }] }];
+}
+
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+function anyOf(key: string, values: string[]): string {
+  return `(${values.map((value) => `${key} = ${quoteFilterValue(value)}`).join(' OR ')})`;
+}
+
+/**
+ * Express a scope as a File Search metadata filter (https://google.aip.dev/160)
+ * over the documentId and category metadata set at upload
+ * Entries indexed before documentId was stored only match after a reindex
+ */
+function toMetadataFilter(scope: SearchScope): string | undefined {
+  const conditions = [
+    ...(scope.categories ? [anyOf('category', scope.categories)] : []),
+    ...(scope.documentIds ? [anyOf('documentId', scope.documentIds)] : []),
+    ...(scope.excludeDocumentIds.length > 0 ? [`NOT ${anyOf('documentId', scope.excludeDocumentIds)}`] : []),
+  ];
+  return conditions.length > 0 ? conditions.join(' AND ') : undefined;
+}
+
+async function getSearchConfig(options: SearchOptions): Promise<GenerateContentConfig> {
+  const storeName = await getOrCreateFileSearchStore();
+  const metadataFilter = hasSearchFilters(options.filters)
+    ? toMetadataFilter(await resolveSearchScope(options.filters))
+    : undefined;
+  return {
+    systemInstruction: SYSTEM_INSTRUCTION,
+    tools: [{
+      fileSearch: {
+        fileSearchStoreNames: [storeName],
+        ...(metadataFilter && { metadataFilter }),
+      },
+    }],
+  };
+}
+
+/**
+ * Answer a question with Gemini using the File Search tool over the shared store
+ */
+export async function searchWithGemini(query: string, options: SearchOptions = {}): Promise<SearchAnswer> {
+  const client = getGeminiClient();
+
+  // Query Gemini with File Search tool
+  const response = await client.models.generateContent({
+    model: SEARCH_MODEL,
+    contents: buildContents(query, options),
+    config: await getSearchConfig(options),
+  });
+
+  const candidate = response.candidates?.[0];
+  if (!candidate) {
+    throw new Error('No response from Gemini');
+  }
+
+  // Extract answer text
+  const answer = candidate.content?.parts?.[0]?.text || 'No answer generated';
+  return buildSearchAnswer(answer, candidate.groundingMetadata);
+}
+
+/**
+ * Stream an answer with Gemini, passing text to onText as it arrives.
+ * Grounding metadata only comes with the last chunks, so citations are
+ * resolved once the stream ends.
+ */
+export async function streamSearchWithGemini(
+  query: string,
+  onText: (text: string) => void,
+  options: SearchOptions = {}
+): Promise<SearchAnswer> {
+  const client = getGeminiClient();
+
+  const stream = await client.models.generateContentStream({
+    model: SEARCH_MODEL,
+    contents: buildContents(query, options),
+    config: await getSearchConfig(options),
+  });
+
+  let answer = '';
+  let groundingMetadata: GroundingMetadata | undefined;
+  for await (const chunk of stream) {
+    const candidate = chunk.candidates?.[0];
+    const text = (candidate?.content?.parts || []).map((part) => part.text || '').join('');
+    if (text) {
+      answer += text;
+      onText(text);
+    }
+    groundingMetadata = candidate?.groundingMetadata || groundingMetadata;
+  }
+
+  if (!answer) {
+    answer = 'No answer generated';
+    onText(answer);
+  }
+  return buildSearchAnswer(answer, groundingMetadata);
+}
+
+/** File Search may return the entry's custom metadata with a chunk; the SDK types do not declare it */
+type FileSearchRetrievedContext = GroundingChunkRetrievedContext & { customMetadata?: CustomMetadata[] };
+
+/**
+ * The document a grounding chunk came from, found by exact match only:
+ * the entry's documentId metadata, its store document name, or its display
+ * name (uploads set it to our document ID)
+ * Entries uploaded before the document ID was stored resolve after a reindex.
+ */
+function resolveChunkDocument(chunk: GroundingChunk, documents: Document[]): Document | undefined {
+  const context = chunk.retrievedContext as FileSearchRetrievedContext | undefined;
+  if (!context) return undefined;
+
+  const metadataId = context.customMetadata?.find((entry) => entry.key === 'documentId')?.stringValue;
+  if (metadataId) {
+    return documents.find((doc) => doc.id === metadataId);
+  }
+
+  const storeDocumentName = [context.documentName, context.uri].find(isStoreDocumentName);
+  if (storeDocumentName) {
+    return documents.find((doc) => doc.geminiDocumentId === storeDocumentName);
+  }
+
+  return context.title ? documents.find((doc) => doc.id === context.title) : undefined;
+}
+
+/**
+ * Map grounding chunks to our documents and number the citations
+ * Chunks that cannot be traced to a document are flagged unresolved, not guessed.
+ */
+async function buildSearchAnswer(
+  answer: string,
+  groundingMetadata: GroundingMetadata | undefined
+): Promise<SearchAnswer> {
+  const groundingChunks = groundingMetadata?.groundingChunks || [];
+  const groundingSupports = groundingMetadata?.groundingSupports || [];
+  const documents = groundingChunks.length > 0 ? await getAllDocuments() : [];
+
+  const retrievedChunks: RetrievedChunk[] = groundingChunks.map((chunk) => {
+    const snippet = chunk.retrievedContext?.text || '';
+    const document = resolveChunkDocument(chunk, documents);
+    if (document) {
+      return { documentId: document.id, title: document.title, snippet };
+    }
+
+    const title = chunk.retrievedContext?.title || '';
+    console.warn(`Could not resolve grounding chunk to a document: "${title}"`);
+    return { documentId: '', title: title || 'Unknown source', snippet, unresolved: true };
+  });
+
+  const { citations, chunkToCitationMap } = buildCitations(retrievedChunks);
+
+  return {
+    answer,
+    citations,
+    chunkToCitationMap,
+    groundingSupports, // Include support indices for inline citations
+    rawGroundingMetadata: groundingMetadata, // For debugging
+  };
+}
@@ -0,0 +1,113 @@
+import { ApiError, type Document as GeminiStoreDocument } from '@google/genai';
+import { getGeminiClient } from './client';
+import { getOrCreateFileSearchStore } from './file-search-store';
+
+export type StoreDocumentState = 'pending' | 'active' | 'failed' | 'unknown';
+
+export interface StoreDocumentInfo {
+  /** Resource name, e.g. "fileSearchStores/abc/documents/def" */
+  name: string;
+  displayName?: string;
+  state: StoreDocumentState;
+  sizeBytes?: number;
+  mimeType?: string;
+  createTime?: string;
+  updateTime?: string;
+  customMetadata: Record<string, string>;
+}
+
+const STORE_DOCUMENT_NAME_PATTERN = /^fileSearchStores\/[^/]+\/documents\/[^/]+$/;
+
+/**
+ * Whether an ID is a File Search store document resource name
+ * (older rows stored operation names or 'unknown' instead)
+ */
+export function isStoreDocumentName(name: string | undefined): name is string {
+  return !!name && STORE_DOCUMENT_NAME_PATTERN.test(name);
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 404;
+}
+
+function toStoreDocumentInfo(document: GeminiStoreDocument): StoreDocumentInfo {
+  const states: Record<string, StoreDocumentState> = {
+    STATE_PENDING: 'pending',
+    STATE_ACTIVE: 'active',
+    STATE_FAILED: 'failed',
+  };
+
+  const customMetadata: Record<string, string> = {};
+  for (const entry of document.customMetadata || []) {
+    if (entry.key && entry.stringValue !== undefined) {
+      customMetadata[entry.key] = entry.stringValue;
+    } else if (entry.key && entry.stringListValue?.values) {
+      customMetadata[entry.key] = entry.stringListValue.values.join(', ');
+    }
+  }
+
+  return {
+    name: document.name || '',
+    displayName: document.displayName,
+    state: states[document.state || ''] || 'unknown',
+    sizeBytes: document.sizeBytes ? Number(document.sizeBytes) : undefined,
+    mimeType: document.mimeType,
+    createTime: document.createTime,
+    updateTime: document.updateTime,
+    customMetadata,
+  };
+}
+
+/**
+ * List every document in the File Search store
+ * @param storeName - Defaults to the shared store
+ */
+export async function listStoreDocuments(storeName?: string): Promise<StoreDocumentInfo[]> {
+  const client = getGeminiClient();
+  const parent = storeName || await getOrCreateFileSearchStore();
+
+  const pager = await client.fileSearchStores.documents.list({
+    parent,
+    config: { pageSize: 20 },
+  });
+
+  const documents: StoreDocumentInfo[] = [];
+  for await (const document of pager) {
+    documents.push(toStoreDocumentInfo(document));
+  }
+  return documents;
+}
+
+/**
+ * Get a store document, including its indexing state
+ * @returns null if the document does not exist
+ */
+export async function getStoreDocument(name: string): Promise<StoreDocumentInfo | null> {
+  try {
+    const document = await getGeminiClient().fileSearchStores.documents.get({ name });
+    return toStoreDocumentInfo(document);
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Delete a store document together with its chunks
+ * Deleting a document that no longer exists is treated as success
+ */
+export async function deleteStoreDocument(name: string): Promise<void> {
+  try {
+    await getGeminiClient().fileSearchStores.documents.delete({
+      name,
+      config: { force: true },
+    });
+    console.log(`Deleted File Search store document: ${name}`);
+  } catch (error) {
+    if (isNotFound(error)) {
+      console.warn(`File Search store document already deleted: ${name}`);
+      return;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+import { getDocumentById } from '@/lib/db/table-storage';
+import { isReviewOverdue } from '@/lib/documents/review-dates';
+import type { Citation } from './search-provider';
+
+export interface RetrievedChunk {
+  /** Empty when unresolved */
+  documentId: string;
+  title: string;
+  snippet: string;
+  /** The chunk could not be traced to one of our documents */
+  unresolved?: boolean;
+}
+
+/**
+ * Deduplicate retrieved chunks by document (unresolved ones by their source
+ * title) and number the resulting citations.
+ * Also builds the chunk index -> citation index map the search page uses to
+ * resolve inline [n] markers (chunks [0, 2, 5] may all map to citation 1).
+ */
+export function buildCitations(chunks: RetrievedChunk[]): {
+  citations: Citation[];
+  chunkToCitationMap: Record<number, number>;
+} {
+  const citationMap = new Map<string, Omit<Citation, 'index'>>();
+
+  chunks.forEach((chunk, chunkIndex) => {
+    const key = chunk.unresolved ? `unresolved:${chunk.title}` : chunk.documentId;
+    const existing = citationMap.get(key);
+    if (existing) {
+      existing.chunkIndices.push(chunkIndex);
+    } else {
+      citationMap.set(key, {
+        documentId: chunk.documentId,
+        title: chunk.title,
+        snippet: chunk.snippet,
+        chunkIndices: [chunkIndex],
+        ...(chunk.unresolved && { unresolved: true }),
+      });
+    }
+  });
+
+  const citations = Array.from(citationMap.values()).map((citation, index) => ({
+    ...citation,
+    index: index + 1,
+  }));
+
+  const chunkToCitationMap: Record<number, number> = {};
+  citations.forEach((citation) => {
+    citation.chunkIndices.forEach((chunkIndex) => {
+      chunkToCitationMap[chunkIndex] = citation.index;
+    });
+  });
+
+  return { citations, chunkToCitationMap };
+}
+
+/**
+ * Add each cited document's review date and overdue flag, so readers can see
+ * when guidance may be stale
+ */
+export async function addReviewStatus(citations: Citation[]): Promise<Citation[]> {
+  return Promise.all(
+    citations.map(async (citation) => {
+      const document = citation.documentId ? await getDocumentById(citation.documentId) : null;
+      if (!document?.reviewDate) return citation;
+      return {
+        ...citation,
+        reviewDate: document.reviewDate,
+        reviewOverdue: isReviewOverdue(document),
+      };
+    })
+  );
+}
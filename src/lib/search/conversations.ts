@@ -0,0 +1,122 @@
+import {
+  claimConversationTurn,
+  getConversation,
+  listConversationTurns,
+  saveConversationTurn,
+  type Conversation,
+  type ConversationTurnEntity,
+} from '@/lib/db/conversations';
+import type { Citation, SearchAnswer, SearchTurn } from './search-provider';
+
+/** Earlier turns sent with a follow-up question; older ones are dropped to bound the prompt */
+export const MAX_HISTORY_TURNS = 10;
+const TITLE_LENGTH = 80;
+// Azure Table string properties hold at most 32K characters
+const MAX_STORED_LENGTH = 30 * 1024;
+// Citation snippets are shortened to fit the whole list in one property
+const STORED_SNIPPET_LENGTH = 500;
+// Turn numbers are claimed with a conditional write; retry when a concurrent question wins
+const MAX_TURN_CLAIM_ATTEMPTS = 5;
+
+export interface ConversationTurn {
+  turn: number;
+  question: string;
+  answer: string;
+  citations: Citation[];
+  chunkToCitationMap: Record<number, number>;
+  createdAt: Date;
+}
+
+/**
+ * Signed-in users only see their own conversations; anonymous ones are open to whoever has the ID
+ */
+export function canAccessConversation(conversation: Conversation, userId: string | undefined): boolean {
+  return !conversation.ownerId || conversation.ownerId === userId;
+}
+
+function toConversationTurn(entity: ConversationTurnEntity): ConversationTurn {
+  return {
+    turn: entity.turn,
+    question: entity.question,
+    answer: entity.answer,
+    citations: JSON.parse(entity.citations || '[]') as Citation[],
+    chunkToCitationMap: JSON.parse(entity.chunkToCitationMap || '{}') as Record<number, number>,
+    createdAt: entity.createdAt,
+  };
+}
+
+export async function getConversationTurns(conversationId: string): Promise<ConversationTurn[]> {
+  return (await listConversationTurns(conversationId)).map(toConversationTurn);
+}
+
+/**
+ * The most recent turns as search history, oldest first
+ */
+export function toSearchHistory(turns: ConversationTurn[]): SearchTurn[] {
+  return turns.slice(-MAX_HISTORY_TURNS).map(({ question, answer }) => ({ question, answer }));
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Citations as stored with a turn: snippets are shortened, and dropped
+ * altogether if the list would still not fit in one table property
+ */
+function serializeCitations(citations: Citation[]): string {
+  const shortened = JSON.stringify(citations.map((citation) => ({
+    ...citation,
+    snippet: truncate(citation.snippet, STORED_SNIPPET_LENGTH),
+  })));
+  if (shortened.length <= MAX_STORED_LENGTH) return shortened;
+  return JSON.stringify(citations.map((citation) => ({ ...citation, snippet: '' })));
+}
+
+/**
+ * Record an answered question; the first one also names the conversation
+ * Long answers and citation snippets are shortened to fit the table's property size limit.
+ */
+export async function appendConversationTurn(
+  conversationId: string,
+  question: string,
+  result: Pick<SearchAnswer, 'answer' | 'citations' | 'chunkToCitationMap'>
+): Promise<ConversationTurn> {
+  const trimmed = question.trim();
+  let claimed: Conversation | null = null;
+  for (let attempt = 0; !claimed && attempt < MAX_TURN_CLAIM_ATTEMPTS; attempt++) {
+    const conversation = await getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+    claimed = await claimConversationTurn(conversation, {
+      title: conversation.title || truncate(trimmed, TITLE_LENGTH),
+    });
+  }
+  if (!claimed) {
+    throw new Error(`Could not record a turn in conversation ${conversationId}: too many concurrent questions`);
+  }
+
+  const entity = await saveConversationTurn({
+    conversationId,
+    turn: claimed.turnCount,
+    question: truncate(question, MAX_STORED_LENGTH),
+    answer: truncate(result.answer, MAX_STORED_LENGTH),
+    citations: serializeCitations(result.citations),
+    chunkToCitationMap: JSON.stringify(result.chunkToCitationMap),
+  });
+  return toConversationTurn(entity);
+}
+
+/**
+ * History to send with a question in an existing conversation
+ * @returns null if the conversation does not exist or belongs to someone else
+ */
+export async function getConversationHistory(
+  conversationId: string,
+  userId: string | undefined
+): Promise<SearchTurn[] | null> {
+  const conversation = await getConversation(conversationId);
+  if (!conversation || !canAccessConversation(conversation, userId)) return null;
+  return toSearchHistory(await getConversationTurns(conversationId));
+}
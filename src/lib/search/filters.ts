@@ -0,0 +1,89 @@
+import { getAllDocuments } from '@/lib/db/table-storage';
+import { CATEGORY_PATH_SEPARATOR } from '@/lib/documents/categories';
+import type { SearchFilters } from './search-provider';
+
+/**
+ * Index entries a filtered question may draw on, in terms of the metadata
+ * stored with every entry (documentId and category)
+ */
+export interface SearchScope {
+  /** Category paths to search; undefined searches every category */
+  categories?: string[];
+  /** Documents to search; undefined searches every document */
+  documentIds?: string[];
+  /** Documents to leave out */
+  excludeDocumentIds: string[];
+}
+
+/**
+ * @returns the filters, or an error message if the request body's filters are malformed
+ */
+export function validateSearchFilters(value: unknown): SearchFilters | string {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'Invalid filters';
+  }
+
+  const { category, documentId, currentOnly } = value as Record<string, unknown>;
+  if (category !== undefined && (typeof category !== 'string' || !category.trim())) {
+    return 'Invalid category filter';
+  }
+  if (documentId !== undefined && (typeof documentId !== 'string' || !documentId.trim())) {
+    return 'Invalid documentId filter';
+  }
+  if (currentOnly !== undefined && typeof currentOnly !== 'boolean') {
+    return 'Invalid currentOnly filter';
+  }
+
+  return {
+    ...(category !== undefined && { category: (category as string).trim() }),
+    ...(documentId !== undefined && { documentId: (documentId as string).trim() }),
+    ...(currentOnly !== undefined && { currentOnly: currentOnly as boolean }),
+  };
+}
+
+export function hasSearchFilters(filters: SearchFilters | undefined): filters is SearchFilters {
+  return !!filters && (!!filters.category || !!filters.documentId || !!filters.currentOnly);
+}
+
+/**
+ * Resolve filters against the document table
+ *
+ * A category includes its subcategories. Store metadata cannot express
+ * "current", so currentOnly leaves out superseded revisions that are still
+ * indexed (normally none - they are retired once the new revision is ready).
+ */
+export async function resolveSearchScope(filters: SearchFilters): Promise<SearchScope> {
+  const documents = await getAllDocuments();
+  const scope: SearchScope = { excludeDocumentIds: [] };
+
+  if (filters.category) {
+    const root = filters.category;
+    const paths = new Set([root]);
+    for (const doc of documents) {
+      if (doc.category.startsWith(root + CATEGORY_PATH_SEPARATOR)) paths.add(doc.category);
+    }
+    scope.categories = Array.from(paths);
+  }
+
+  if (filters.documentId) {
+    scope.documentIds = [filters.documentId];
+  }
+
+  if (filters.currentOnly) {
+    scope.excludeDocumentIds = documents
+      .filter((doc) => doc.isCurrent === false && doc.geminiDocumentId)
+      .map((doc) => doc.id);
+  }
+
+  return scope;
+}
+
+/**
+ * Check an indexed document against a resolved scope
+ */
+export function isInSearchScope(scope: SearchScope, documentId: string, category: string | undefined): boolean {
+  if (scope.categories && !scope.categories.includes(category || '')) return false;
+  if (scope.documentIds && !scope.documentIds.includes(documentId)) return false;
+  return !scope.excludeDocumentIds.includes(documentId);
+}
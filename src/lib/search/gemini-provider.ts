@@ -0,0 +1,75 @@
+import {
+  startGeminiUpload,
+  checkGeminiUpload,
+  deleteDocumentFromGemini,
+  type GeminiUploadStatus,
+} from '@/lib/gemini/document-indexing';
+import { searchWithGemini, streamSearchWithGemini } from '@/lib/gemini/search';
+import {
+  getStoreDocument,
+  isStoreDocumentName,
+  listStoreDocuments,
+  type StoreDocumentInfo,
+} from '@/lib/gemini/store-documents';
+import type { IndexedDocument, IndexingProgress, SearchProvider } from './search-provider';
+
+function toIndexingProgress(status: GeminiUploadStatus): IndexingProgress {
+  if (!status.done) {
+    return status;
+  }
+  return {
+    done: true,
+    result: {
+      indexId: status.result.geminiDocumentId,
+      storeName: status.result.geminiFileSearchStoreName,
+    },
+  };
+}
+
+function toIndexedDocument(document: StoreDocumentInfo): IndexedDocument {
+  return {
+    indexId: document.name,
+    displayName: document.displayName,
+    state: document.state,
+    sizeBytes: document.sizeBytes,
+    updatedAt: document.updateTime,
+    metadata: document.customMetadata,
+  };
+}
+
+/**
+ * Search provider backed by Gemini File Search
+ */
+export function createGeminiSearchProvider(): SearchProvider {
+  return {
+    async beginIndexing(buffer, fileName, metadata) {
+      return toIndexingProgress(await startGeminiUpload(buffer, fileName, metadata));
+    },
+
+    async checkIndexing(operationName) {
+      return toIndexingProgress(await checkGeminiUpload(operationName));
+    },
+
+    async deleteDocument(indexId) {
+      await deleteDocumentFromGemini(indexId);
+    },
+
+    async listIndexedDocuments() {
+      return (await listStoreDocuments()).map(toIndexedDocument);
+    },
+
+    async getIndexedDocument(indexId) {
+      if (!isStoreDocumentName(indexId)) return null;
+      const document = await getStoreDocument(indexId);
+      return document ? toIndexedDocument(document) : null;
+    },
+
+    async answerQuery(query, options) {
+      return searchWithGemini(query, options);
+    },
+
+    async streamAnswer(query, onText, options) {
+      return streamSearchWithGemini(query, onText, options);
+    },
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Keyword tokenizer, chunker and BM25 ranking for the offline search provider
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'do', 'does', 'should',
+  'can', 'i', 'we', 'you', 'our', 'your', 'about', 'any', 'there', 'these', 'those',
+]);
+
+// Standard BM25 parameters
+const K1 = 1.5;
+const B = 0.75;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Split text into overlapping word windows so passages keep some context
+ */
+export function chunkText(text: string, wordsPerChunk: number = 200, overlap: number = 40): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const chunks: string[] = [];
+  const step = Math.max(1, wordsPerChunk - overlap);
+  for (let start = 0; start < words.length; start += step) {
+    chunks.push(words.slice(start, start + wordsPerChunk).join(' '));
+    if (start + wordsPerChunk >= words.length) break;
+  }
+  return chunks;
+}
+
+export interface RankedPassage<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Rank passages against a query with Okapi BM25
+ */
+export function rankPassages<T>(
+  query: string,
+  passages: T[],
+  getText: (passage: T) => string,
+  limit: number = 5
+): RankedPassage<T>[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || passages.length === 0) return [];
+
+  const termFrequencies = passages.map((passage) => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(getText(passage));
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    return { counts, length: tokens.length };
+  });
+
+  const averageLength =
+    termFrequencies.reduce((sum, tf) => sum + tf.length, 0) / termFrequencies.length || 1;
+
+  const inverseDocumentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    const containing = termFrequencies.filter((tf) => tf.counts.has(term)).length;
+    inverseDocumentFrequency.set(
+      term,
+      Math.log(1 + (passages.length - containing + 0.5) / (containing + 0.5))
+    );
+  }
+
+  return passages
+    .map((item, index) => {
+      const { counts, length } = termFrequencies[index];
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = counts.get(term) || 0;
+        if (frequency === 0) continue;
+        score += inverseDocumentFrequency.get(term)! *
+          (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (length / averageLength)));
+      }
+      return { item, score };
+    })
+    .filter((ranked) => ranked.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Pick the sentences of a passage that best cover the query terms
+ */
+export function extractBestSentences(passage: string, query: string, maxLength: number = 320): string {
+  const queryTerms = new Set(tokenize(query));
+  const sentences = passage.match(/[^.!?\n]+[.!?]?/g)?.map((s) => s.trim()).filter(Boolean) || [passage];
+
+  const scored = sentences
+    .map((sentence, index) => ({
+      sentence,
+      index,
+      score: tokenize(sentence).filter((token) => queryTerms.has(token)).length,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const selected: typeof scored = [];
+  let length = 0;
+  for (const candidate of scored) {
+    if (length > 0 && length + candidate.sentence.length > maxLength) break;
+    selected.push(candidate);
+    length += candidate.sentence.length + 1;
+  }
+
+  const excerpt = selected
+    .sort((a, b) => a.index - b.index)
+    .map((s) => s.sentence)
+    .join(' ');
+
+  return excerpt.length > maxLength ? `${excerpt.slice(0, maxLength).trimEnd()}…` : excerpt;
+}
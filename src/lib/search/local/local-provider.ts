@@ -0,0 +1,177 @@
+import { getEntityStore, listAllEntities } from '@/lib/db/entity-store';
+import { getAllDocuments } from '@/lib/db/table-storage';
+import { buildCitations } from '../citations';
+import { hasSearchFilters, isInSearchScope, resolveSearchScope } from '../filters';
+import type { IndexedDocument, SearchAnswer, SearchOptions, SearchProvider } from '../search-provider';
+import { chunkText, extractBestSentences, rankPassages } from './bm25';
+import { extractText } from './text-extraction';
+
+const CHUNK_PARTITION = 'search-chunk';
+const LOCAL_STORE_NAME = 'local';
+const MAX_PASSAGES = 5;
+
+interface SearchChunkEntity {
+  partitionKey: string;
+  rowKey: string;
+  documentId: string;
+  title: string;
+  chunkIndex: number;
+  text: string;
+  createdAt: Date;
+}
+
+function chunkRowKey(documentId: string, chunkIndex: number): string {
+  return `${documentId}-${chunkIndex.toString().padStart(5, '0')}`;
+}
+
+async function removeChunks(documentId: string): Promise<void> {
+  const store = getEntityStore();
+  const chunks = await listAllEntities<SearchChunkEntity>(store, CHUNK_PARTITION, { documentId });
+  for (const chunk of chunks) {
+    await store.deleteEntity(CHUNK_PARTITION, chunk.rowKey);
+  }
+}
+
+function toIndexedDocuments(chunks: SearchChunkEntity[]): IndexedDocument[] {
+  const byDocument = new Map<string, IndexedDocument>();
+  for (const chunk of chunks) {
+    const existing = byDocument.get(chunk.documentId);
+    if (existing) {
+      existing.sizeBytes = (existing.sizeBytes || 0) + chunk.text.length;
+      continue;
+    }
+    byDocument.set(chunk.documentId, {
+      indexId: chunk.documentId,
+      displayName: chunk.title,
+      state: 'active',
+      sizeBytes: chunk.text.length,
+      updatedAt: new Date(chunk.createdAt).toISOString(),
+      metadata: { documentId: chunk.documentId, title: chunk.title },
+    });
+  }
+  return Array.from(byDocument.values());
+}
+
+/**
+ * Answer with the best BM25-ranked passages
+ * Keyword search has no notion of context, so a follow-up question is ranked
+ * together with the question before it ("what about for children?")
+ */
+async function answerQuery(question: string, options: SearchOptions = {}): Promise<SearchAnswer> {
+  const previous = options.history?.slice(-1)[0];
+  const query = previous ? `${previous.question} ${question}` : question;
+  const documents = await getAllDocuments();
+  let chunks = await listAllEntities<SearchChunkEntity>(getEntityStore(), CHUNK_PARTITION);
+
+  // Chunks only record the document, so filter on the document's current category
+  if (hasSearchFilters(options.filters)) {
+    const scope = await resolveSearchScope(options.filters);
+    const categories = new Map(documents.map((doc) => [doc.id, doc.category]));
+    chunks = chunks.filter((chunk) => isInSearchScope(scope, chunk.documentId, categories.get(chunk.documentId)));
+  }
+
+  const ranked = rankPassages(query, chunks, (chunk) => chunk.text, MAX_PASSAGES);
+
+  if (ranked.length === 0) {
+    return {
+      answer: hasSearchFilters(options.filters)
+        ? 'I could not find anything in the selected documents that matches your question.'
+        : 'I could not find anything in the documents that matches your question.',
+      citations: [],
+      chunkToCitationMap: {},
+    };
+  }
+
+  // Prefer current titles over the ones captured at indexing time
+  const titles = new Map(documents.map((doc) => [doc.id, doc.title]));
+
+  const retrieved = ranked.map(({ item }) => ({
+    documentId: item.documentId,
+    title: titles.get(item.documentId) || item.title,
+    snippet: item.text,
+  }));
+
+  const passages = ranked.map(({ item }, chunkIndex) =>
+    `> ${extractBestSentences(item.text, query)} [${chunkIndex + 1}]`
+  );
+
+  const answer = [
+    '**Most relevant passages** (keyword search - AI-generated answers are not available):',
+    ...passages,
+  ].join('\n\n');
+
+  const { citations, chunkToCitationMap } = buildCitations(retrieved);
+  return { answer, citations, chunkToCitationMap };
+}
+
+/**
+ * Offline search provider: extracts text, chunks it into the entity store
+ * and answers with the best BM25-ranked passages instead of generated text
+ */
+export function createLocalSearchProvider(): SearchProvider {
+  return {
+    async beginIndexing(buffer, fileName, metadata) {
+      const text = await extractText(buffer, fileName);
+      const chunks = chunkText(text);
+      if (chunks.length === 0) {
+        throw new Error('No text could be extracted from the document');
+      }
+
+      // Re-indexing replaces any previous chunks for the document
+      await removeChunks(metadata.documentId);
+
+      const store = getEntityStore();
+      const now = new Date();
+      for (const [chunkIndex, chunk] of chunks.entries()) {
+        await store.upsertEntity<SearchChunkEntity>({
+          partitionKey: CHUNK_PARTITION,
+          rowKey: chunkRowKey(metadata.documentId, chunkIndex),
+          documentId: metadata.documentId,
+          title: metadata.title,
+          chunkIndex,
+          text: chunk,
+          createdAt: now,
+        });
+      }
+
+      console.log(`Indexed ${chunks.length} chunks locally for document ${metadata.documentId}`);
+
+      // Local indexing is synchronous, so it always completes immediately
+      return {
+        done: true,
+        result: {
+          indexId: metadata.documentId,
+          storeName: LOCAL_STORE_NAME,
+        },
+      };
+    },
+
+    async checkIndexing(operationName) {
+      throw new Error(`Local search has no pending operations (${operationName})`);
+    },
+
+    async deleteDocument(indexId) {
+      await removeChunks(indexId);
+    },
+
+    async listIndexedDocuments() {
+      return toIndexedDocuments(await listAllEntities<SearchChunkEntity>(getEntityStore(), CHUNK_PARTITION));
+    },
+
+    async getIndexedDocument(indexId) {
+      const chunks = await listAllEntities<SearchChunkEntity>(getEntityStore(), CHUNK_PARTITION, {
+        documentId: indexId,
+      });
+      return toIndexedDocuments(chunks)[0] ?? null;
+    },
+
+    answerQuery,
+
+    // Passages are ranked all at once, so the answer arrives in one piece
+    async streamAnswer(query, onText, options) {
+      const result = await answerQuery(query, options);
+      onText(result.answer);
+      return result;
+    },
+  };
+}
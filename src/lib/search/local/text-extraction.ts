@@ -0,0 +1,33 @@
+import { extractText as extractPdfText } from 'unpdf';
+import mammoth from 'mammoth';
+
+/**
+ * Extract plain text from an uploaded document for the offline search index
+ * Supports PDF, DOCX and plain text; legacy .doc files are not supported
+ */
+export async function extractText(buffer: Buffer, fileName: string): Promise<string> {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'pdf': {
+      const { text } = await extractPdfText(new Uint8Array(buffer), { mergePages: true });
+      return normalizeWhitespace(text);
+    }
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer });
+      return normalizeWhitespace(value);
+    }
+    case 'txt':
+      return normalizeWhitespace(buffer.toString('utf8'));
+    default:
+      throw new Error(`Text extraction is not supported for .${extension || 'unknown'} files`);
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
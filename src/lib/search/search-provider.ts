@@ -0,0 +1,133 @@
+import { createGeminiSearchProvider } from './gemini-provider';
+import { createLocalSearchProvider } from './local/local-provider';
+
+export interface DocumentIndexMetadata {
+  documentId: string;
+  title: string;
+  category: string;
+  version: string;
+  tags?: string[];
+  owner?: string;
+}
+
+export interface IndexResult {
+  /** Provider-specific ID of the indexed entry (stored as Document.geminiDocumentId) */
+  indexId: string;
+  /** Store/index the entry lives in (stored as Document.geminiFileSearchStoreName) */
+  storeName: string;
+}
+
+/**
+ * Progress of an indexing request - providers that index asynchronously
+ * return an operation name to check again later
+ */
+export type IndexingProgress =
+  | { done: true; result: IndexResult }
+  | { done: false; operationName: string };
+
+export type IndexedDocumentState = 'pending' | 'active' | 'failed' | 'unknown';
+
+/**
+ * An entry as it exists in the search index (Gemini store document or local chunks)
+ */
+export interface IndexedDocument {
+  indexId: string;
+  displayName?: string;
+  state: IndexedDocumentState;
+  sizeBytes?: number;
+  updatedAt?: string;
+  metadata: Record<string, string>;
+}
+
+export interface Citation {
+  index: number;
+  /** Empty when unresolved */
+  documentId: string;
+  title: string;
+  snippet: string;
+  chunkIndices: number[];
+  /** Review date of the cited document (YYYY-MM-DD), if recorded */
+  reviewDate?: string;
+  /** The cited document is past its review date - the guidance may be stale */
+  reviewOverdue?: boolean;
+  /** The source could not be traced to one of our documents, so there is nothing to link to */
+  unresolved?: boolean;
+}
+
+/** An earlier question and answer in a conversation */
+export interface SearchTurn {
+  question: string;
+  answer: string;
+}
+
+/** Narrows the documents a question is answered from */
+export interface SearchFilters {
+  /** Category path; its subcategories are included */
+  category?: string;
+  documentId?: string;
+  /** Leave out superseded revisions */
+  currentOnly?: boolean;
+}
+
+export interface SearchOptions {
+  /** Earlier turns of the conversation, oldest first */
+  history?: SearchTurn[];
+  filters?: SearchFilters;
+}
+
+export interface SearchAnswer {
+  answer: string;
+  citations: Citation[];
+  /** Maps original chunk indices to deduplicated citation indices */
+  chunkToCitationMap: Record<number, number>;
+  groundingSupports?: unknown[];
+  rawGroundingMetadata?: unknown;
+}
+
+/**
+ * Indexes documents and answers questions with citations.
+ * Implementations: Gemini File Search and the offline BM25 engine.
+ */
+export interface SearchProvider {
+  /** Start indexing a document; may complete immediately */
+  beginIndexing(buffer: Buffer, fileName: string, metadata: DocumentIndexMetadata): Promise<IndexingProgress>;
+  /** Check an indexing operation returned by beginIndexing */
+  checkIndexing(operationName: string): Promise<IndexingProgress>;
+  /** Remove an entry (and its chunks) so it no longer appears in answers */
+  deleteDocument(indexId: string): Promise<void>;
+  /** List every entry currently in the index */
+  listIndexedDocuments(): Promise<IndexedDocument[]>;
+  /** Look up one entry and its indexing state; null if it does not exist */
+  getIndexedDocument(indexId: string): Promise<IndexedDocument | null>;
+  answerQuery(query: string, options?: SearchOptions): Promise<SearchAnswer>;
+  /** Answer a question, passing answer text to onText as it is generated */
+  streamAnswer(query: string, onText: (text: string) => void, options?: SearchOptions): Promise<SearchAnswer>;
+}
+
+export type SearchProviderName = 'gemini' | 'local';
+
+let searchProvider: SearchProvider | null = null;
+
+/**
+ * Resolve the configured search provider
+ * Set SEARCH_PROVIDER to 'gemini' or 'local'; defaults to gemini when GEMINI_API_KEY is set
+ */
+export function getSearchProviderName(): SearchProviderName {
+  const provider = (process.env.SEARCH_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : 'local')).toLowerCase();
+  if (provider !== 'gemini' && provider !== 'local') {
+    throw new Error(`Unknown SEARCH_PROVIDER: ${provider}`);
+  }
+  return provider;
+}
+
+/**
+ * Get or create the search provider for the configured backend
+ */
+export function getSearchProvider(): SearchProvider {
+  if (!searchProvider) {
+    searchProvider = getSearchProviderName() === 'local'
+      ? createLocalSearchProvider()
+      : createGeminiSearchProvider();
+  }
+  return searchProvider;
+}
@@ -0,0 +1,55 @@
+import type { SearchAnswer } from './search-provider';
+
+/**
+ * Events sent by /api/search/stream: answer text as it is generated, then
+ * either the finished answer with its citations or an error
+ */
+export interface SearchStreamEvents {
+  token: { text: string };
+  done: Pick<SearchAnswer, 'answer' | 'citations' | 'chunkToCitationMap' | 'groundingSupports'>;
+  error: { error: string; details?: string };
+}
+
+export type SearchStreamEventName = keyof SearchStreamEvents;
+
+export function formatSseEvent<E extends SearchStreamEventName>(event: E, data: SearchStreamEvents[E]): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read a server-sent event stream from a fetch response body
+ * (EventSource only supports GET, and searches are POSTed)
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: <E extends SearchStreamEventName>(event: E, data: SearchStreamEvents[E]) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data.push(line.slice(6));
+      }
+      if (data.length > 0) {
+        onEvent(event as SearchStreamEventName, JSON.parse(data.join('\n')));
+      }
+    }
+
+    if (done) return;
+  }
+}
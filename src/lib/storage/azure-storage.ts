@@ -1,4 +1,6 @@
 import { BlobServiceClient, ContainerClient, BlobSASPermissions } from '@azure/storage-blob';
+import type { BlobInfo, BlobStorage } from './blob-storage';
+import { getContentType } from './content-type';
 
 let blobServiceClient: BlobServiceClient | null = null;
 
@@ -30,20 +32,29 @@ async function getContainerClient(): Promise<ContainerClient> {
 /**
  * Upload a document to Azure Blob Storage
  */
-export async function uploadDocument(
+async function uploadDocument(
   file: File | Buffer,
   fileName: string,
   metadata?: Record<string, string>
+): Promise<{ uri: string; blobName: string }> {
+  const buffer = file instanceof File ? Buffer.from(await file.arrayBuffer()) : file;
+  return writeDocument(`${Date.now()}-${fileName}`, buffer, metadata);
+}
+
+/**
+ * Write a document under an exact blob name, replacing any existing blob
+ */
+async function writeDocument(
+  blobName: string,
+  content: Buffer,
+  metadata?: Record<string, string>
 ): Promise<{ uri: string; blobName: string }> {
   const containerClient = await getContainerClient();
-  const blobName = `${Date.now()}-${fileName}`;
   const blockBlobClient = containerClient.getBlockBlobClient(blobName);
 
-  const buffer = file instanceof File ? await file.arrayBuffer() : file;
-
-  await blockBlobClient.upload(buffer, buffer.byteLength || (buffer as Buffer).length, {
+  await blockBlobClient.upload(content, content.length, {
     blobHTTPHeaders: {
-      blobContentType: getContentType(fileName),
+      blobContentType: getContentType(blobName),
     },
     metadata: metadata || {},
   });
@@ -57,7 +68,7 @@ export async function uploadDocument(
 /**
  * Download a document from Azure Blob Storage
  */
-export async function downloadDocument(blobName: string): Promise<Buffer> {
+async function downloadDocument(blobName: string): Promise<Buffer> {
   const containerClient = await getContainerClient();
   const blockBlobClient = containerClient.getBlockBlobClient(blobName);
 
@@ -73,7 +84,7 @@ export async function downloadDocument(blobName: string): Promise<Buffer> {
 /**
  * Get a SAS URL for temporary document access
  */
-export async function getDocumentSasUrl(
+async function getDocumentSasUrl(
   blobName: string,
   expiresInMinutes: number = 60
 ): Promise<string> {
@@ -98,7 +109,7 @@ export async function getDocumentSasUrl(
 /**
  * Delete a document from Azure Blob Storage
  */
-export async function deleteDocument(blobName: string): Promise<void> {
+async function deleteDocument(blobName: string): Promise<void> {
   const containerClient = await getContainerClient();
   const blockBlobClient = containerClient.getBlockBlobClient(blobName);
   await blockBlobClient.deleteIfExists();
@@ -107,21 +118,9 @@ export async function deleteDocument(blobName: string): Promise<void> {
 /**
  * List all documents in the container
  */
-export async function listDocuments(prefix?: string): Promise<
-  Array<{
-    name: string;
-    size: number;
-    lastModified: Date;
-    contentType?: string;
-  }>
-> {
+async function listDocuments(prefix?: string): Promise<BlobInfo[]> {
   const containerClient = await getContainerClient();
-  const documents: Array<{
-    name: string;
-    size: number;
-    lastModified: Date;
-    contentType?: string;
-  }> = [];
+  const documents: BlobInfo[] = [];
 
   for await (const blob of containerClient.listBlobsFlat({ prefix })) {
     documents.push({
@@ -138,7 +137,7 @@ export async function listDocuments(prefix?: string): Promise<
 /**
  * Get document metadata
  */
-export async function getDocumentMetadata(blobName: string): Promise<Record<string, string>> {
+async function getDocumentMetadata(blobName: string): Promise<Record<string, string>> {
   const containerClient = await getContainerClient();
   const blockBlobClient = containerClient.getBlockBlobClient(blobName);
   const properties = await blockBlobClient.getProperties();
@@ -148,7 +147,7 @@ export async function getDocumentMetadata(blobName: string): Promise<Record<stri
 /**
  * Update document metadata
  */
-export async function updateDocumentMetadata(
+async function updateDocumentMetadata(
   blobName: string,
   metadata: Record<string, string>
 ): Promise<void> {
@@ -160,25 +159,31 @@ export async function updateDocumentMetadata(
 /**
  * Check if document exists
  */
-export async function documentExists(blobName: string): Promise<boolean> {
+async function documentExists(blobName: string): Promise<boolean> {
   const containerClient = await getContainerClient();
   const blockBlobClient = containerClient.getBlockBlobClient(blobName);
   return blockBlobClient.exists();
 }
 
-// Helper functions
-
-function getContentType(fileName: string): string {
-  const ext = fileName.toLowerCase().split('.').pop();
-  const contentTypes: Record<string, string> = {
-    pdf: 'application/pdf',
-    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    doc: 'application/msword',
-    txt: 'text/plain',
+/**
+ * Blob storage backed by the Azure container in AZURE_STORAGE_CONTAINER_NAME
+ */
+export function createAzureBlobStorage(): BlobStorage {
+  return {
+    uploadDocument,
+    writeDocument,
+    downloadDocument,
+    getDocumentSasUrl,
+    deleteDocument,
+    listDocuments,
+    getDocumentMetadata,
+    updateDocumentMetadata,
+    documentExists,
   };
-  return contentTypes[ext || ''] || 'application/octet-stream';
 }
 
+// Helper functions
+
 async function streamToBuffer(readableStream: NodeJS.ReadableStream): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
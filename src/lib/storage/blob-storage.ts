@@ -0,0 +1,111 @@
+import { createAzureBlobStorage } from './azure-storage';
+import { createLocalBlobStorage } from './local-storage';
+
+export interface BlobInfo {
+  name: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+}
+
+/**
+ * Storage for the original uploaded files.
+ * Implementations: Azure Blob Storage and the local filesystem.
+ */
+export interface BlobStorage {
+  uploadDocument(
+    file: File | Buffer,
+    fileName: string,
+    metadata?: Record<string, string>
+  ): Promise<{ uri: string; blobName: string }>;
+  /** Write a file under an exact blob name (e.g. when restoring a backup), replacing any existing one */
+  writeDocument(
+    blobName: string,
+    content: Buffer,
+    metadata?: Record<string, string>
+  ): Promise<{ uri: string; blobName: string }>;
+  downloadDocument(blobName: string): Promise<Buffer>;
+  /** Time-limited read URL (SAS for Azure, signed route for local) */
+  getDocumentSasUrl(blobName: string, expiresInMinutes?: number): Promise<string>;
+  deleteDocument(blobName: string): Promise<void>;
+  listDocuments(prefix?: string): Promise<BlobInfo[]>;
+  getDocumentMetadata(blobName: string): Promise<Record<string, string>>;
+  updateDocumentMetadata(blobName: string, metadata: Record<string, string>): Promise<void>;
+  documentExists(blobName: string): Promise<boolean>;
+}
+
+export type BlobStorageProvider = 'azure' | 'local';
+
+let blobStorage: BlobStorage | null = null;
+
+/**
+ * Resolve the configured blob storage provider
+ * Set BLOB_STORAGE_PROVIDER to 'azure' (default) or 'local'
+ */
+export function getBlobStorageProvider(): BlobStorageProvider {
+  const provider = (process.env.BLOB_STORAGE_PROVIDER || 'azure').toLowerCase();
+  if (provider !== 'azure' && provider !== 'local') {
+    throw new Error(`Unknown BLOB_STORAGE_PROVIDER: ${provider}`);
+  }
+  return provider;
+}
+
+/**
+ * Get or create the blob storage for the configured provider
+ */
+export function getBlobStorage(): BlobStorage {
+  if (!blobStorage) {
+    blobStorage = getBlobStorageProvider() === 'local'
+      ? createLocalBlobStorage()
+      : createAzureBlobStorage();
+  }
+  return blobStorage;
+}
+
+export async function uploadDocument(
+  file: File | Buffer,
+  fileName: string,
+  metadata?: Record<string, string>
+): Promise<{ uri: string; blobName: string }> {
+  return getBlobStorage().uploadDocument(file, fileName, metadata);
+}
+
+export async function writeDocument(
+  blobName: string,
+  content: Buffer,
+  metadata?: Record<string, string>
+): Promise<{ uri: string; blobName: string }> {
+  return getBlobStorage().writeDocument(blobName, content, metadata);
+}
+
+export async function downloadDocument(blobName: string): Promise<Buffer> {
+  return getBlobStorage().downloadDocument(blobName);
+}
+
+export async function getDocumentSasUrl(blobName: string, expiresInMinutes: number = 60): Promise<string> {
+  return getBlobStorage().getDocumentSasUrl(blobName, expiresInMinutes);
+}
+
+export async function deleteDocument(blobName: string): Promise<void> {
+  return getBlobStorage().deleteDocument(blobName);
+}
+
+export async function listDocuments(prefix?: string): Promise<BlobInfo[]> {
+  return getBlobStorage().listDocuments(prefix);
+}
+
+export async function getDocumentMetadata(blobName: string): Promise<Record<string, string>> {
+  return getBlobStorage().getDocumentMetadata(blobName);
+}
+
+export async function updateDocumentMetadata(
+  blobName: string,
+  metadata: Record<string, string>
+): Promise<void> {
+  return getBlobStorage().updateDocumentMetadata(blobName, metadata);
+}
+
+export async function documentExists(blobName: string): Promise<boolean> {
+  return getBlobStorage().documentExists(blobName);
+}
+
@@ -0,0 +1,13 @@
+/**
+ * Get MIME type from file extension
+ */
+export function getContentType(fileName: string): string {
+  const ext = fileName.toLowerCase().split('.').pop();
+  const contentTypes: Record<string, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    doc: 'application/msword',
+    txt: 'text/plain',
+  };
+  return contentTypes[ext || ''] || 'application/octet-stream';
+}
@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BlobInfo, BlobStorage } from './blob-storage';
+import { getContentType } from './content-type';
+import { createSignedBlobUrl, getBlobRoutePath } from './signed-url';
+
+// Sidecar directory holding content type and metadata for each blob
+const METADATA_DIR = '.meta';
+
+interface BlobSidecar {
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+function getRootDir(): string {
+  return path.resolve(process.env.LOCAL_STORAGE_PATH || 'data/blobs');
+}
+
+/**
+ * Resolve a blob name to a path inside the storage root, rejecting traversal
+ */
+function resolveBlobPath(blobName: string, baseDir: string = getRootDir()): string {
+  const resolved = path.resolve(baseDir, blobName);
+  if (!resolved.startsWith(baseDir + path.sep)) {
+    throw new Error(`Invalid blob name: ${blobName}`);
+  }
+  return resolved;
+}
+
+function resolveSidecarPath(blobName: string): string {
+  return resolveBlobPath(`${blobName}.json`, path.join(getRootDir(), METADATA_DIR));
+}
+
+async function readSidecar(blobName: string): Promise<BlobSidecar> {
+  try {
+    const raw = await fs.readFile(resolveSidecarPath(blobName), 'utf8');
+    return JSON.parse(raw) as BlobSidecar;
+  } catch {
+    return { contentType: getContentType(blobName), metadata: {} };
+  }
+}
+
+async function writeSidecar(blobName: string, sidecar: BlobSidecar): Promise<void> {
+  const sidecarPath = resolveSidecarPath(blobName);
+  await fs.mkdir(path.dirname(sidecarPath), { recursive: true });
+  await fs.writeFile(sidecarPath, JSON.stringify(sidecar, null, 2));
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Upload a document to the local storage directory
+ */
+async function uploadDocument(
+  file: File | Buffer,
+  fileName: string,
+  metadata?: Record<string, string>
+): Promise<{ uri: string; blobName: string }> {
+  const buffer = file instanceof File ? Buffer.from(await file.arrayBuffer()) : file;
+  return writeDocument(`${Date.now()}-${path.basename(fileName)}`, buffer, metadata);
+}
+
+/**
+ * Write a document under an exact blob name, replacing any existing file
+ */
+async function writeDocument(
+  blobName: string,
+  content: Buffer,
+  metadata?: Record<string, string>
+): Promise<{ uri: string; blobName: string }> {
+  const blobPath = resolveBlobPath(blobName);
+
+  await fs.mkdir(path.dirname(blobPath), { recursive: true });
+  await fs.writeFile(blobPath, content);
+  await writeSidecar(blobName, {
+    contentType: getContentType(blobName),
+    metadata: metadata || {},
+  });
+
+  return {
+    uri: getBlobRoutePath(blobName),
+    blobName,
+  };
+}
+
+/**
+ * Download a document from the local storage directory
+ */
+async function downloadDocument(blobName: string): Promise<Buffer> {
+  return fs.readFile(resolveBlobPath(blobName));
+}
+
+/**
+ * Get a signed, expiring URL served by the /api/storage route
+ */
+async function getDocumentSasUrl(
+  blobName: string,
+  expiresInMinutes: number = 60
+): Promise<string> {
+  return createSignedBlobUrl(blobName, expiresInMinutes);
+}
+
+/**
+ * Delete a document and its metadata sidecar
+ */
+async function deleteDocument(blobName: string): Promise<void> {
+  await fs.rm(resolveBlobPath(blobName), { force: true });
+  await fs.rm(resolveSidecarPath(blobName), { force: true });
+}
+
+/**
+ * List all documents in the storage directory
+ */
+async function listDocuments(prefix?: string): Promise<BlobInfo[]> {
+  const rootDir = getRootDir();
+  const documents: BlobInfo[] = [];
+
+  async function walk(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (dir === rootDir && entry.name === METADATA_DIR) continue;
+        await walk(fullPath);
+        continue;
+      }
+
+      const name = path.relative(rootDir, fullPath).split(path.sep).join('/');
+      if (prefix && !name.startsWith(prefix)) continue;
+
+      const stats = await fs.stat(fullPath);
+      const sidecar = await readSidecar(name);
+      documents.push({
+        name,
+        size: stats.size,
+        lastModified: stats.mtime,
+        contentType: sidecar.contentType,
+      });
+    }
+  }
+
+  await walk(rootDir);
+  return documents;
+}
+
+/**
+ * Get document metadata
+ */
+async function getDocumentMetadata(blobName: string): Promise<Record<string, string>> {
+  return (await readSidecar(blobName)).metadata;
+}
+
+/**
+ * Update document metadata (replaces existing metadata, like Azure setMetadata)
+ */
+async function updateDocumentMetadata(
+  blobName: string,
+  metadata: Record<string, string>
+): Promise<void> {
+  const sidecar = await readSidecar(blobName);
+  await writeSidecar(blobName, { ...sidecar, metadata });
+}
+
+/**
+ * Check if document exists
+ */
+async function documentExists(blobName: string): Promise<boolean> {
+  return fileExists(resolveBlobPath(blobName));
+}
+
+/**
+ * Get the content type recorded for a blob (used by the signed download route)
+ */
+export async function getLocalContentType(blobName: string): Promise<string> {
+  return (await readSidecar(blobName)).contentType;
+}
+
+/**
+ * Blob storage backed by the local filesystem (LOCAL_STORAGE_PATH)
+ */
+export function createLocalBlobStorage(): BlobStorage {
+  return {
+    uploadDocument,
+    writeDocument,
+    downloadDocument,
+    getDocumentSasUrl,
+    deleteDocument,
+    listDocuments,
+    getDocumentMetadata,
+    updateDocumentMetadata,
+    documentExists,
+  };
+}
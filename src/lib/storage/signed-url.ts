@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * HMAC-signed, expiring URLs for the local blob route (/api/storage/...)
+ * Stand-in for Azure SAS URLs when BLOB_STORAGE_PROVIDER=local
+ */
+
+export const SIGNED_URL_ROUTE = '/api/storage';
+
+function getSigningSecret(): string {
+  const secret = process.env.LOCAL_STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('LOCAL_STORAGE_SIGNING_SECRET or NEXTAUTH_SECRET must be defined to sign URLs');
+  }
+  return secret;
+}
+
+function sign(blobName: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${blobName}:${expires}`)
+    .digest('hex');
+}
+
+export function getBlobRoutePath(blobName: string): string {
+  return `${SIGNED_URL_ROUTE}/${blobName.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Create a relative URL that grants read access to a blob until it expires
+ */
+export function createSignedBlobUrl(blobName: string, expiresInMinutes: number = 60): string {
+  const expires = Date.now() + expiresInMinutes * 60 * 1000;
+  const params = new URLSearchParams({
+    expires: expires.toString(),
+    signature: sign(blobName, expires),
+  });
+  return `${getBlobRoutePath(blobName)}?${params.toString()}`;
+}
+
+/**
+ * Check a signature and expiry produced by createSignedBlobUrl
+ */
+export function verifySignedBlobUrl(
+  blobName: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  if (!expires || !signature) return false;
+
+  const expiresAt = parseInt(expires, 10);
+  if (Number.isNaN(expiresAt) || expiresAt < Date.now()) return false;
+
+  const expected = Buffer.from(sign(blobName, expiresAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
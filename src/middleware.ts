@@ -1,20 +1,30 @@
-import { auth } from '@/lib/auth/config';
+import NextAuth from 'next-auth';
 import { NextResponse } from 'next/server';
+import { authConfig } from '@/lib/auth/auth.config';
+
+// Built from the edge-safe config so middleware never loads the storage-backed provider
+const { auth } = NextAuth(authConfig);
 
 export default auth((req) => {
   const isLoggedIn = !!req.auth;
   const isOnDocuments = req.nextUrl.pathname.startsWith('/documents');
+  const isOnAdmin = req.nextUrl.pathname.startsWith('/admin');
 
-  if (isOnDocuments && !isLoggedIn) {
+  if ((isOnDocuments || isOnAdmin) && !isLoggedIn) {
     const signInUrl = new URL('/auth/signin', req.url);
     signInUrl.searchParams.set('callbackUrl', req.nextUrl.pathname);
     return NextResponse.redirect(signInUrl);
   }
 
+  if (isOnAdmin && req.auth?.user?.role !== 'admin') {
+    return NextResponse.redirect(new URL('/documents', req.url));
+  }
+
   return NextResponse.next();
 });
 
 export const config = {
-  matcher: ['/documents/:path*'],
+  matcher: ['/documents/:path*', '/admin/:path*'],
   // Note: /view/:path* is intentionally NOT included here to allow public access
+  // API routes check roles in each handler (see src/lib/auth/guard.ts)
 };
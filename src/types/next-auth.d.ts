@@ -0,0 +1,20 @@
+import type { DefaultSession } from 'next-auth';
+import type { Role } from '@/lib/auth/roles';
+
+declare module 'next-auth' {
+  interface User {
+    role?: Role;
+  }
+
+  interface Session {
+    user: {
+      role: Role;
+    } & DefaultSession['user'];
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role?: Role;
+  }
+}